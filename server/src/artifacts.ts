@@ -0,0 +1,240 @@
+// --- Files changed by the agent, served through signed, expiring links ---
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+import { readFile } from "node:fs/promises"
+import { isAbsolute, join, relative } from "node:path"
+import { diffLines, toHunks } from "./diff"
+import { createStore } from "./store"
+
+export interface Artifact {
+  id: string
+  sessionId: string
+  /** Path relative to the session directory when inside it */
+  path: string
+  status: "created" | "modified" | "deleted"
+  /** Text of each side for the diff page; null if missing or not text */
+  before: string | null
+  after: string | null
+  /** The file as it is now, base64; null once deleted */
+  data: string | null
+  /** False for binary files, which get no line diff */
+  text: boolean
+  createdAt: string
+  expiresAt: number
+}
+
+export interface ArtifactLink {
+  id: string
+  path: string
+  status: Artifact["status"]
+  size: number
+  /** Signed, server-relative URLs */
+  url: string
+  diff_url: string
+}
+
+const FILE_TOOLS = ["Edit", "MultiEdit", "Write", "NotebookEdit"]
+const MAX_FILE_BYTES = 1024 * 1024
+// Served with their type; anything else binary is a plain download
+const BINARY_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+}
+const utf8 = new TextDecoder("utf-8", { fatal: true })
+
+const ttlMs = Number(process.env.ARTIFACT_TTL_MS ?? 86_400_000)
+// Without a configured secret, links stop working when the server restarts
+const secret =
+  process.env.ARTIFACT_SECRET ||
+  process.env.API_PASSWORD ||
+  randomBytes(32).toString("hex")
+
+const artifacts = createStore<Artifact>("artifacts")
+
+export async function readContent(path: string): Promise<Buffer | null> {
+  try {
+    const data = await readFile(path)
+    return data.length > MAX_FILE_BYTES ? null : data
+  } catch {
+    return null
+  }
+}
+
+export function sameContent(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b)
+}
+
+/** The bytes as a string if they are UTF-8 text, null for binary data. */
+function decodeText(data: Buffer): string | null {
+  if (data.includes(0)) return null
+  try {
+    return utf8.decode(data)
+  } catch {
+    return null
+  }
+}
+/**
+ * Watches Edit/Write tool calls during one prompt. Called from a PreToolUse
+ * hook, so a file's content is captured the first time a tool targets it,
+ * before the tool runs, and the final diff covers every change in the prompt.
+ */
+export function createChangeTracker(cwd: string) {
+  const before = new Map<string, Promise<Buffer | null>>()
+
+  return {
+    async beforeTool(toolName: string, input: any): Promise<void> {
+      if (!FILE_TOOLS.includes(toolName)) return
+      const target = input?.file_path ?? input?.notebook_path
+      if (typeof target !== "string") return
+      const abs = isAbsolute(target) ? target : join(cwd, target)
+      if (!before.has(abs)) before.set(abs, readContent(abs))
+      await before.get(abs)
+    },
+
+    /** Store an artifact for every file that actually changed. */
+    async finish(sessionId: string): Promise<Artifact[]> {
+      purgeExpired()
+      const created: Artifact[] = []
+      for (const [abs, pending] of before) {
+        const old = await pending
+        const now = await readContent(abs)
+        if (sameContent(old, now)) continue
+
+        const rel = relative(cwd, abs)
+        created.push(saveArtifact(sessionId, rel.startsWith("..") ? abs : rel, old, now))
+      }
+      return created
+    },
+  }
+}
+
+/** Store a before/after pair; a null side means the file didn't exist. */
+export function saveArtifact(
+  sessionId: string,
+  path: string,
+  before: Buffer | string | null,
+  after: Buffer | string | null,
+): Artifact {
+  const beforeBytes = typeof before === "string" ? Buffer.from(before) : before
+  const afterBytes = typeof after === "string" ? Buffer.from(after) : after
+  const beforeText = beforeBytes && decodeText(beforeBytes)
+  const afterText = afterBytes && decodeText(afterBytes)
+  // Only diffed when every side that exists is text
+  const text = beforeText !== null && afterText !== null
+  const artifact: Artifact = {
+    id: randomBytes(9).toString("base64url"),
+    sessionId,
+    path,
+    status: beforeBytes === null ? "created" : afterBytes === null ? "deleted" : "modified",
+    before: text ? beforeText : null,
+    after: text ? afterText : null,
+    data: afterBytes?.toString("base64") ?? null,
+    text,
+    createdAt: new Date().toISOString(),
+    expiresAt: Date.now() + ttlMs,
+  }
+  artifacts.set(artifact.id, artifact)
+  return artifact
+}
+
+function purgeExpired(): void {
+  for (const artifact of artifacts.values()) {
+    if (artifact.expiresAt < Date.now()) artifacts.delete(artifact.id)
+  }
+}
+
+function sign(id: string, exp: number): string {
+  return createHmac("sha256", secret).update(`${id}.${exp}`).digest("base64url")
+}
+
+export function toLink(artifact: Artifact): ArtifactLink {
+  const exp = artifact.expiresAt
+  const query = `exp=${exp}&sig=${sign(artifact.id, exp)}`
+  return {
+    id: artifact.id,
+    path: artifact.path,
+    status: artifact.status,
+    size: artifact.data ? Buffer.byteLength(artifact.data, "base64") : 0,
+    url: `/artifact/${artifact.id}?${query}`,
+    diff_url: `/artifact/${artifact.id}/diff?${query}`,
+  }
+}
+
+/** Look up an artifact if the signature is valid and the link hasn't expired. */
+export function verifyArtifact(
+  id: string,
+  exp: string | undefined,
+  sig: string | undefined,
+): Artifact | null {
+  const expNum = Number(exp)
+  if (!sig || !Number.isFinite(expNum) || expNum < Date.now()) return null
+  const expected = Buffer.from(sign(id, expNum))
+  const given = Buffer.from(sig)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null
+  }
+  const artifact = artifacts.get(id)
+  if (!artifact) return null
+  // Stored before binary files were kept as bytes
+  artifact.data ??= artifact.after === null ? null : Buffer.from(artifact.after).toString("base64")
+  artifact.text ??= true
+  return artifact
+}
+
+/** Content-Type for downloading the artifact. */
+export function contentType(artifact: Artifact): string {
+  const ext = artifact.path.split(".").pop()?.toLowerCase() ?? ""
+  if (!artifact.text) return BINARY_TYPES[ext] ?? "application/octet-stream"
+  // Text is never served as HTML or script from our origin
+  return ext === "md" ? "text/markdown; charset=utf-8" : "text/plain; charset=utf-8"
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/** Mobile-friendly HTML page showing the artifact's diff. */
+export function renderDiffPage(artifact: Artifact, downloadUrl: string): string {
+  const hunks = artifact.text ? toHunks(diffLines(artifact.before ?? "", artifact.after ?? "")) : []
+  const body = hunks.length
+    ? hunks
+        .map((hunk) => {
+          const rows = hunk.lines
+            .map((line) => {
+              const sign = line.type === "add" ? "+" : line.type === "del" ? "-" : " "
+              return `<div class="${line.type}">${escapeHtml(sign + line.text)}</div>`
+            })
+            .join("")
+          return `<div class="hunk">${escapeHtml(hunk.header)}</div>${rows}`
+        })
+        .join("")
+    : artifact.text
+      ? `<p>No textual changes.</p>`
+      : `<p>Binary file; no line diff.</p>`
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${escapeHtml(artifact.path)}</title>
+<style>
+body{font-family:-apple-system,sans-serif;margin:0;padding:12px;background:#fafafa}
+h1{font-size:15px;word-break:break-all;margin:0 0 4px}
+.meta{color:#666;font-size:12px;margin-bottom:12px}
+pre{font:12px/1.45 ui-monospace,Menlo,monospace;background:#fff;border:1px solid #ddd;border-radius:6px;overflow-x:auto;margin:0}
+pre div{padding:0 8px;white-space:pre}
+.add{background:#e6ffec}.del{background:#ffebe9}.hunk{background:#ddf4ff;color:#555}
+</style></head><body>
+<h1>${escapeHtml(artifact.path)}</h1>
+<div class="meta">${artifact.status} · ${escapeHtml(artifact.createdAt)}${artifact.data !== null ? ` · <a href="${escapeHtml(downloadUrl)}">download</a>` : ""}</div>
+<pre>${body}</pre>
+</body></html>`
+}
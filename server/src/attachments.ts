@@ -0,0 +1,83 @@
+// --- Prompt attachments: images as content blocks, files saved to the workspace ---
+
+import { mkdir, writeFile } from "node:fs/promises"
+import { basename, join } from "node:path"
+
+export interface ImageAttachment {
+  type: "image"
+  media_type: "image/jpeg" | "image/png" | "image/gif" | "image/webp"
+  /** Base64-encoded bytes */
+  data: string
+}
+
+export interface FileAttachment {
+  type: "file"
+  name: string
+  /** Base64-encoded bytes */
+  data: string
+}
+
+export type Attachment = ImageAttachment | FileAttachment
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"]
+export const UPLOAD_DIR = ".claude-line/uploads"
+const maxAttachments = Number(process.env.MAX_ATTACHMENTS ?? 10)
+const maxAttachmentBytes = Number(process.env.MAX_ATTACHMENT_TOTAL_BYTES ?? 20 * 1024 * 1024)
+
+/** Validate the request's `attachments` field. Returns an error message on failure. */
+export function parseAttachments(raw: unknown): Attachment[] | string {
+  if (raw === undefined) return []
+  if (!Array.isArray(raw)) return "'attachments' must be an array"
+  if (raw.length > maxAttachments) return `At most ${maxAttachments} attachments per prompt`
+
+  let bytes = 0
+  for (const a of raw) {
+    if (typeof a?.data !== "string" || !a.data) {
+      return "Each attachment needs base64 'data'"
+    }
+    if (a.type === "image") {
+      if (!IMAGE_TYPES.includes(a.media_type)) {
+        return `Unsupported image type '${a.media_type}' (use ${IMAGE_TYPES.join(", ")})`
+      }
+    } else if (a.type === "file") {
+      if (typeof a.name !== "string" || !a.name) return "File attachments need a 'name'"
+    } else {
+      return `Unknown attachment type '${a?.type}'`
+    }
+    bytes += Buffer.byteLength(a.data, "base64")
+  }
+  if (bytes > maxAttachmentBytes) {
+    return `Attachments total ${bytes} bytes; the limit is ${maxAttachmentBytes}`
+  }
+  return raw as Attachment[]
+}
+
+function safeFileName(name: string): string {
+  const cleaned = basename(name).replace(/[^\w.\-]+/g, "_").replace(/^\.+/, "")
+  return cleaned || "file"
+}
+
+/** Write file attachments under the session directory; returns relative paths. */
+export async function saveFiles(
+  directory: string,
+  attachments: Attachment[],
+): Promise<string[]> {
+  const files = attachments.filter((a): a is FileAttachment => a.type === "file")
+  if (files.length === 0) return []
+
+  await mkdir(join(directory, UPLOAD_DIR), { recursive: true })
+  const saved: string[] = []
+  for (const file of files) {
+    const relPath = `${UPLOAD_DIR}/${Date.now()}-${safeFileName(file.name)}`
+    await writeFile(join(directory, relPath), Buffer.from(file.data, "base64"))
+    saved.push(relPath)
+  }
+  return saved
+}
+
+/** Point the agent at uploaded files so it can Read them. */
+export function withFileReferences(prompt: string, paths: string[]): string {
+  if (paths.length === 0) return prompt
+  const list = paths.map((p) => `- ${p}`).join("\n")
+  return `${prompt}\n\nThe user attached these files (relative to the working directory):\n${list}`
+}
@@ -0,0 +1,64 @@
+import { afterAll, describe, expect, setSystemTime, test } from "bun:test"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+// The ledger is read back from SQLite to see what pruning left behind
+const dir = mkdtempSync(join(tmpdir(), "budget-test-"))
+process.env.DB_PATH = join(dir, "test.db")
+process.env.BUDGET_USER_MONTHLY_USD = "10"
+process.env.BUDGET_WARN_RATIO = "0.8"
+
+const { capPromptBudget, checkBudget, getBudgetStatus, recordCost } = await import("./budget")
+const { createStore } = await import("./store")
+const ledger = createStore<{ day: string; user: string }>("ledger")
+
+afterAll(() => {
+  setSystemTime()
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe("budget ledger", () => {
+  test("sums spend per day and month, per user and globally", () => {
+    setSystemTime(new Date(2026, 0, 10, 12))
+    recordCost("alice", "s1", 1)
+    setSystemTime(new Date(2026, 0, 11, 12))
+    recordCost("alice", "s1", 2)
+    recordCost("bob", "s2", 4)
+
+    const status = getBudgetStatus("alice")
+    expect(status.spend).toEqual({ today: 2, month: 3, allTime: 3 })
+    expect(status.global).toEqual({ today: 6, month: 7, allTime: 7 })
+  })
+
+  test("moves past months out of the ledger but keeps them in allTime", () => {
+    setSystemTime(new Date(2026, 1, 1, 12))
+    const status = getBudgetStatus("alice")
+    expect(status.spend).toEqual({ today: 0, month: 0, allTime: 3 })
+    expect(status.global.allTime).toBe(7)
+    expect(ledger.values()).toEqual([])
+
+    recordCost("alice", "s1", 0.5)
+    expect(getBudgetStatus("alice").spend).toEqual({ today: 0.5, month: 0.5, allTime: 3.5 })
+    expect(ledger.values().map((e) => e.day)).toEqual(["2026-02-01"])
+  })
+
+  test("warns once spend crosses the warning ratio", () => {
+    setSystemTime(new Date(2026, 1, 2, 12))
+    expect(recordCost("alice", "s1", 7)).toBeNull()
+    expect(recordCost("alice", "s1", 1)).toContain("85% of your monthly cap")
+    expect(recordCost("alice", "s1", 0.1)).toBeNull()
+  })
+
+  test("refuses prompts once a cap is used up and clamps the rest", () => {
+    expect(capPromptBudget("alice", 5)).toBeCloseTo(1.4)
+    expect(checkBudget("alice").allowed).toBe(true)
+
+    recordCost("alice", "s1", 2)
+    const check = checkBudget("alice")
+    expect(check.allowed).toBe(false)
+    expect(capPromptBudget("alice", 5)).toBe(0)
+    // Other users have their own cap
+    expect(checkBudget("bob").allowed).toBe(true)
+  })
+})
@@ -0,0 +1,167 @@
+// --- Spend ledger and daily/monthly budget caps ---
+
+import { createStore } from "./store"
+
+/** One row per user, session and day; costs are summed into it. */
+interface LedgerEntry {
+  day: string
+  user: string
+  sessionId: string
+  costUsd: number
+  prompts: number
+}
+
+export interface SpendSummary {
+  today: number
+  month: number
+  allTime: number
+}
+
+export interface BudgetCaps {
+  userDaily: number
+  userMonthly: number
+  globalDaily: number
+  globalMonthly: number
+}
+
+export interface BudgetStatus {
+  user: string
+  spend: SpendSummary
+  global: SpendSummary
+  caps: BudgetCaps
+}
+
+/** Spend from past months, folded out of the ledger by pruneLedger. */
+interface SpendTotal {
+  user: string
+  costUsd: number
+}
+
+export type BudgetCheck = { allowed: true } | { allowed: false; reason: string }
+
+const ledger = createStore<LedgerEntry>("ledger")
+const pastSpend = createStore<SpendTotal>("ledger_totals")
+let prunedMonth = ""
+
+// 0 disables a cap
+const caps: BudgetCaps = {
+  userDaily: Number(process.env.BUDGET_USER_DAILY_USD ?? 0),
+  userMonthly: Number(process.env.BUDGET_USER_MONTHLY_USD ?? 0),
+  globalDaily: Number(process.env.BUDGET_GLOBAL_DAILY_USD ?? 0),
+  globalMonthly: Number(process.env.BUDGET_GLOBAL_MONTHLY_USD ?? 0),
+}
+const warnRatio = Number(process.env.BUDGET_WARN_RATIO ?? 0.8)
+
+/** Local calendar day (honours TZ), e.g. "2026-10-19". */
+function dayOf(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, "0")
+  const dd = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${mm}-${dd}`
+}
+
+/**
+ * Move entries from past months into per-user totals, so the ledger only
+ * holds the current month (the longest window a cap covers). Runs once per month.
+ */
+function pruneLedger(): void {
+  const month = dayOf(new Date()).slice(0, 7)
+  if (month === prunedMonth) return
+  prunedMonth = month
+  for (const e of ledger.values()) {
+    if (e.day.startsWith(month)) continue
+    const total = pastSpend.get(e.user) ?? { user: e.user, costUsd: 0 }
+    total.costUsd += e.costUsd
+    pastSpend.set(e.user, total)
+    ledger.delete(`${e.day}|${e.user}|${e.sessionId}`)
+  }
+}
+
+function summarize(entries: LedgerEntry[], pastUsd: number): SpendSummary {
+  const today = dayOf(new Date())
+  const month = today.slice(0, 7)
+  const summary: SpendSummary = { today: 0, month: 0, allTime: pastUsd }
+  for (const e of entries) {
+    summary.allTime += e.costUsd
+    if (e.day.startsWith(month)) summary.month += e.costUsd
+    if (e.day === today) summary.today += e.costUsd
+  }
+  return summary
+}
+
+export function getBudgetStatus(user: string): BudgetStatus {
+  pruneLedger()
+  const entries = ledger.values()
+  const past = pastSpend.values()
+  return {
+    user,
+    spend: summarize(
+      entries.filter((e) => e.user === user),
+      pastSpend.get(user)?.costUsd ?? 0,
+    ),
+    global: summarize(
+      entries,
+      past.reduce((sum, total) => sum + total.costUsd, 0),
+    ),
+    caps,
+  }
+}
+
+/** Each active cap paired with current spend, labelled for messages. */
+function capUsage(status: BudgetStatus): { label: string; spent: number; cap: number }[] {
+  return [
+    { label: "your daily", spent: status.spend.today, cap: caps.userDaily },
+    { label: "your monthly", spent: status.spend.month, cap: caps.userMonthly },
+    { label: "the global daily", spent: status.global.today, cap: caps.globalDaily },
+    { label: "the global monthly", spent: status.global.month, cap: caps.globalMonthly },
+  ].filter((u) => u.cap > 0)
+}
+
+export function checkBudget(user: string): BudgetCheck {
+  for (const u of capUsage(getBudgetStatus(user))) {
+    if (u.spent >= u.cap) {
+      return {
+        allowed: false,
+        reason: `Budget exceeded: ${u.label} cap of $${u.cap.toFixed(2)} is used up ($${u.spent.toFixed(4)} spent).`,
+      }
+    }
+  }
+  return { allowed: true }
+}
+
+/** Clamp a prompt's max budget to the smallest remaining headroom. */
+export function capPromptBudget(user: string, requested: number): number {
+  let limit = requested
+  for (const u of capUsage(getBudgetStatus(user))) {
+    limit = Math.min(limit, Math.max(u.cap - u.spent, 0))
+  }
+  return limit
+}
+
+/**
+ * Add a prompt's cost to the ledger. Returns a warning when this prompt
+ * pushed spend past BUDGET_WARN_RATIO of any cap.
+ */
+export function recordCost(
+  user: string,
+  sessionId: string,
+  costUsd: number,
+): string | null {
+  if (costUsd <= 0) return null
+  const before = capUsage(getBudgetStatus(user))
+
+  const day = dayOf(new Date())
+  const key = `${day}|${user}|${sessionId}`
+  const entry = ledger.get(key) ?? { day, user, sessionId, costUsd: 0, prompts: 0 }
+  entry.costUsd += costUsd
+  entry.prompts += 1
+  ledger.set(key, entry)
+
+  for (const u of before) {
+    const threshold = u.cap * warnRatio
+    const after = u.spent + costUsd
+    if (u.spent < threshold && after >= threshold) {
+      return `Budget warning: ${Math.round((after / u.cap) * 100)}% of ${u.label} cap ($${u.cap.toFixed(2)}) used.`
+    }
+  }
+  return null
+}
@@ -1,8 +1,15 @@
 // --- Claude Agent SDK integration ---
 
-import { query } from "@anthropic-ai/claude-agent-sdk"
+import {
+  query,
+  type CanUseTool,
+  type SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk"
+import type { ImageAttachment } from "./attachments"
 import { publish } from "./events"
-import type { MessageInfo, MessagePart } from "./session"
+import { createLogger } from "./log"
+import { createSandbox } from "./sandbox"
+import type { MessageInfo, MessagePart, PermissionMode } from "./session"
 
 export interface ClaudeOptions {
   model?: string
@@ -11,24 +18,112 @@ export interface ClaudeOptions {
   systemPrompt?: string
   resumeSessionId?: string
   workspaceDir?: string
-  abortController?: AbortController
+  /** Aborting interrupts the agent; output and cost so far are kept */
+  signal?: AbortSignal
+  /** "approve" routes each tool call through canUseTool (default: bypass) */
+  permissionMode?: PermissionMode
+  canUseTool?: CanUseTool
+  /** Withhold every tool that can modify files or run commands */
+  readOnly?: boolean
+  /** Offer only these tools, overriding the sandbox policy ([] = none) */
+  tools?: string[]
+  /** Images sent alongside the prompt as content blocks */
+  images?: ImageAttachment[]
+  /** Runs before each tool executes (PreToolUse hook) */
+  beforeTool?: (toolName: string, input: unknown) => Promise<void>
   /** Our internal session ID for publishing SSE events */
   sessionId?: string
 }
 
+export interface TokenUsage {
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+}
+
 export interface ClaudeResult {
   result: string
   session_id: string
   cost_usd: number
   duration_ms: number
   is_error: boolean
+  /** Stopped through `signal`; `result` holds the text produced until then */
+  cancelled: boolean
   messages: MessageInfo[]
+  /** Tokens billed for the whole prompt, every turn included */
+  usage: TokenUsage
+  /** Size of the conversation after the last turn, i.e. what the next prompt starts from */
+  context_tokens: number
+  /** The model's context window, when the SDK reports it */
+  context_window: number | null
+}
+
+export const NO_USAGE: TokenUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    cacheRead: a.cacheRead + b.cacheRead,
+    cacheWrite: a.cacheWrite + b.cacheWrite,
+  }
+}
+
+function toTokenUsage(usage: any): TokenUsage {
+  return {
+    input: usage?.input_tokens ?? 0,
+    output: usage?.output_tokens ?? 0,
+    cacheRead: usage?.cache_read_input_tokens ?? 0,
+    cacheWrite: usage?.cache_creation_input_tokens ?? 0,
+  }
 }
 
 const defaultModel = process.env.CLAUDE_MODEL ?? "sonnet"
 const defaultMaxTurns = Number(process.env.CLAUDE_MAX_TURNS ?? 10)
-const defaultMaxBudget = Number(process.env.CLAUDE_MAX_BUDGET_USD ?? 1.00)
+export const defaultMaxBudget = Number(process.env.CLAUDE_MAX_BUDGET_USD ?? 1.00)
 const defaultWorkspaceDir = process.env.WORKSPACE_DIR ?? "/workspace"
+const MAX_STORED_TOOL_RESULT = 2000
+// How long an interrupted agent gets to wind down before it is killed
+const INTERRUPT_GRACE_MS = 10_000
+
+const log = createLogger("claude")
+
+/** Streaming input mode, which interrupt() needs; it also carries images. */
+async function* promptMessages(
+  prompt: string,
+  images: ImageAttachment[],
+): AsyncIterable<SDKUserMessage> {
+  yield {
+    type: "user",
+    parent_tool_use_id: null,
+    message: {
+      role: "user",
+      content: [
+        ...images.map((image) => ({
+          type: "image" as const,
+          source: {
+            type: "base64" as const,
+            media_type: image.media_type,
+            data: image.data,
+          },
+        })),
+        { type: "text" as const, text: prompt },
+      ],
+    },
+  }
+}
+
+const WRITE_TOOLS = ["Bash", "Edit", "MultiEdit", "Write", "NotebookEdit", "KillShell"]
+
+/** All assistant text so far, for a cancelled prompt's partial result. */
+function partialText(messages: MessageInfo[]): string {
+  return messages
+    .flatMap((message) => message.parts)
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n\n")
+}
 
 export async function runClaude(
   prompt: string,
@@ -37,18 +132,42 @@ export async function runClaude(
 ): Promise<ClaudeResult> {
   const start = Date.now()
   const cwd = options.workspaceDir ?? defaultWorkspaceDir
-  const abortController = options.abortController ?? new AbortController()
+  // Only used to kill the agent if an interrupt doesn't stop it
+  const abortController = new AbortController()
   const sid = options.sessionId // our session ID for events
+  // Tool, file, environment and network limits from the project's policy
+  const sandbox = createSandbox(cwd)
 
   const collectedMessages: MessageInfo[] = []
   let sdkSessionId = ""
   let resultText = ""
   let costUsd = 0
   let isError = false
+  let usage = NO_USAGE
+  let contextTokens = 0
+  let contextWindow: number | null = null
+  let cancelled = options.signal?.aborted ?? false
+  let killTimer: ReturnType<typeof setTimeout> | undefined
+  let onCancel: (() => void) | undefined
+
+  if (cancelled) {
+    return {
+      result: "",
+      session_id: options.resumeSessionId ?? "",
+      cost_usd: 0,
+      duration_ms: 0,
+      is_error: false,
+      cancelled,
+      messages: [],
+      usage,
+      context_tokens: contextTokens,
+      context_window: contextWindow,
+    }
+  }
 
   try {
     const q = query({
-      prompt,
+      prompt: promptMessages(prompt, options.images ?? []),
       options: {
         cwd,
         model: options.model ?? defaultModel,
@@ -56,13 +175,55 @@ export async function runClaude(
         maxBudgetUsd: options.maxBudget ?? defaultMaxBudget,
         systemPrompt: options.systemPrompt,
         resume: options.resumeSessionId,
-        permissionMode: "bypassPermissions",
-        allowDangerouslySkipPermissions: true,
+        ...sandbox.options,
+        tools: options.tools ?? sandbox.options.tools,
+        disallowedTools: [
+          ...(options.readOnly ? WRITE_TOOLS : []),
+          ...(sandbox.options.disallowedTools ?? []),
+        ],
+        hooks: {
+          PreToolUse: [
+            {
+              hooks: [
+                async (input) => {
+                  if (input.hook_event_name !== "PreToolUse") return {}
+                  const denied = sandbox.check(input.tool_name, input.tool_input)
+                  if (denied) {
+                    log.warn("tool call blocked by sandbox", { tool: input.tool_name, reason: denied })
+                    return {
+                      hookSpecificOutput: {
+                        hookEventName: "PreToolUse" as const,
+                        permissionDecision: "deny" as const,
+                        permissionDecisionReason: denied,
+                      },
+                    }
+                  }
+                  await options.beforeTool?.(input.tool_name, input.tool_input)
+                  return {}
+                },
+              ],
+            },
+          ],
+        },
+        ...(options.permissionMode === "approve"
+          ? { permissionMode: "default" as const, canUseTool: options.canUseTool }
+          : {
+              permissionMode: "bypassPermissions" as const,
+              allowDangerouslySkipPermissions: true,
+            }),
         includePartialMessages: true,
         abortController,
       },
     })
 
+    // Interrupting lets the SDK finish with a result message, cost included
+    onCancel = () => {
+      cancelled = true
+      killTimer = setTimeout(() => abortController.abort(), INTERRUPT_GRACE_MS)
+      q.interrupt().catch(() => abortController.abort())
+    }
+    options.signal?.addEventListener("abort", onCancel, { once: true })
+
     for await (const msg of q) {
       switch (msg.type) {
         case "system": {
@@ -75,6 +236,12 @@ export async function runClaude(
         case "assistant": {
           const m = msg as any
           sdkSessionId = m.session_id || sdkSessionId
+          // Each turn re-reads the whole conversation, so the last one's tokens are its size
+          // (subagents have conversations of their own)
+          if (m.message?.usage && !m.parent_tool_use_id) {
+            const turn = toTokenUsage(m.message.usage)
+            contextTokens = turn.input + turn.cacheRead + turn.cacheWrite + turn.output
+          }
           const parts: MessagePart[] = []
 
           const content = m.message?.content
@@ -126,7 +293,20 @@ export async function runClaude(
           const content = m.message?.content
           if (Array.isArray(content)) {
             for (const block of content) {
-              if (block.type === "tool_result" && sid) {
+              if (block.type !== "tool_result") continue
+              const output =
+                typeof block.content === "string"
+                  ? block.content
+                  : JSON.stringify(block.content)
+              // Keep a clipped copy on the tool call for transcripts
+              const toolPart = collectedMessages
+                .flatMap((message) => message.parts)
+                .find((part) => part.id === block.tool_use_id)
+              if (toolPart) {
+                toolPart.toolResult = output.slice(0, MAX_STORED_TOOL_RESULT)
+                toolPart.status = block.is_error ? "error" : "completed"
+              }
+              if (sid) {
                 publish({
                   type: "message.part.updated",
                   properties: {
@@ -135,10 +315,7 @@ export async function runClaude(
                     part: {
                       id: block.tool_use_id,
                       type: "tool_result",
-                      toolResult:
-                        typeof block.content === "string"
-                          ? block.content
-                          : JSON.stringify(block.content),
+                      toolResult: output,
                       status: "completed",
                     },
                   },
@@ -174,6 +351,9 @@ export async function runClaude(
           sdkSessionId = m.session_id || sdkSessionId
           costUsd = m.total_cost_usd ?? 0
           isError = m.is_error ?? false
+          usage = toTokenUsage(m.usage)
+          const windows = Object.values(m.modelUsage ?? {}).map((model: any) => model.contextWindow ?? 0)
+          contextWindow = windows.length > 0 ? Math.max(...windows) || null : null
 
           if (m.subtype === "success") {
             resultText = m.result ?? ""
@@ -193,7 +373,7 @@ export async function runClaude(
       (err?.message?.includes("not found") ||
         err?.message?.includes("No conversation"))
     ) {
-      console.log(`[claude] Session expired, retrying without resume`)
+      log.info("session expired, retrying without resume")
       return runClaude(
         prompt,
         { ...options, resumeSessionId: undefined },
@@ -201,20 +381,41 @@ export async function runClaude(
       )
     }
 
-    if (err?.name === "AbortError") {
-      resultText = "Query was aborted"
+    if (cancelled) {
+      log.warn("agent killed after interrupt, cost so far is unknown", { err })
     } else {
       resultText = err?.message ?? "Unknown error"
+      isError = true
     }
-    isError = true
+  } finally {
+    clearTimeout(killTimer)
+    if (onCancel) options.signal?.removeEventListener("abort", onCancel)
   }
 
+  if (cancelled) {
+    return {
+      result: partialText(collectedMessages),
+      session_id: sdkSessionId || options.resumeSessionId || "",
+      cost_usd: costUsd,
+      duration_ms: Date.now() - start,
+      is_error: false,
+      cancelled,
+      messages: collectedMessages,
+      usage,
+      context_tokens: contextTokens,
+      context_window: contextWindow,
+    }
+  }
   return {
     result: resultText || "Done. (no text output)",
     session_id: sdkSessionId,
     cost_usd: costUsd,
     duration_ms: Date.now() - start,
     is_error: isError,
+    cancelled,
     messages: collectedMessages,
+    usage,
+    context_tokens: contextTokens,
+    context_window: contextWindow,
   }
 }
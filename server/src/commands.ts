@@ -0,0 +1,83 @@
+// --- Custom slash commands: prompt templates in .claude-line/commands/*.md ---
+
+import { readdir, readFile } from "node:fs/promises"
+import { join } from "node:path"
+import { createLogger } from "./log"
+import { workspaceRoot } from "./project"
+
+export interface CommandTemplate {
+  /** Typed as /<name>; the file name without .md */
+  name: string
+  description: string | null
+  /** What to type after the name, e.g. "<file>" */
+  argumentHint: string | null
+  /** Markdown body; $ARGS is replaced with whatever follows the command */
+  prompt: string
+  /** Where it was found: the workspace root, or the project (which wins) */
+  scope: "workspace" | "project"
+}
+
+const COMMANDS_DIR = join(".claude-line", "commands")
+const COMMAND_NAME = /^[a-z0-9][a-z0-9_-]{0,31}$/
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/
+
+const log = createLogger("commands")
+
+/** `key: value` lines of a YAML frontmatter block; nesting isn't needed here. */
+function parseFrontmatter(block: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  for (const line of block.split(/\r?\n/)) {
+    const match = line.match(/^([\w-]+):\s*(.*)$/)
+    if (!match) continue
+    fields[match[1].toLowerCase()] = match[2].trim().replace(/^(["'])(.*)\1$/, "$2")
+  }
+  return fields
+}
+
+async function readCommands(directory: string, scope: CommandTemplate["scope"]): Promise<CommandTemplate[]> {
+  const dir = join(directory, COMMANDS_DIR)
+  const files = await readdir(dir).catch(() => [] as string[])
+  const commands: CommandTemplate[] = []
+  for (const file of files.sort()) {
+    if (!file.endsWith(".md")) continue
+    const name = file.slice(0, -3).toLowerCase()
+    if (!COMMAND_NAME.test(name)) {
+      log.warn("command skipped: bad name", { file: join(dir, file) })
+      continue
+    }
+    try {
+      const text = await readFile(join(dir, file), "utf8")
+      const match = text.match(FRONTMATTER)
+      const fields = match ? parseFrontmatter(match[1]) : {}
+      const prompt = (match ? text.slice(match[0].length) : text).trim()
+      if (!prompt) continue
+      commands.push({
+        name,
+        description: fields.description || null,
+        argumentHint: fields["argument-hint"] || null,
+        prompt,
+        scope,
+      })
+    } catch (err: any) {
+      log.warn("command skipped: unreadable", { file: join(dir, file), err })
+    }
+  }
+  return commands
+}
+
+/**
+ * Templates for a session directory: the workspace root's, overridden by
+ * the project's own. Read on every call so edits apply straight away.
+ */
+export async function listCommands(directory: string): Promise<CommandTemplate[]> {
+  const commands = new Map<string, CommandTemplate>()
+  for (const command of await readCommands(workspaceRoot, "workspace")) {
+    commands.set(command.name, command)
+  }
+  if (directory !== workspaceRoot) {
+    for (const command of await readCommands(directory, "project")) {
+      commands.set(command.name, command)
+    }
+  }
+  return Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test"
+import { nextRun, parseCron, type Cron } from "./cron"
+
+function parse(expression: string): Cron {
+  const cron = parseCron(expression)
+  if (typeof cron === "string") throw new Error(cron)
+  return cron
+}
+
+const sorted = (set: Set<number>) => [...set].sort((a, b) => a - b)
+
+describe("parseCron", () => {
+  test("expands ranges, lists and steps", () => {
+    const cron = parse("*/15 9-17 1,15 * mon-fri")
+    expect(sorted(cron.minutes)).toEqual([0, 15, 30, 45])
+    expect(sorted(cron.hours)).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17])
+    expect(sorted(cron.days)).toEqual([1, 15])
+    expect(cron.months.size).toBe(12)
+    expect(sorted(cron.weekdays)).toEqual([1, 2, 3, 4, 5])
+  })
+
+  test("reads a start with a step as running to the end", () => {
+    expect(sorted(parse("50/5 * * * *").minutes)).toEqual([50, 55])
+  })
+
+  test("accepts month and day names in any case", () => {
+    const cron = parse("0 0 * JAN,dec Sun")
+    expect(sorted(cron.months)).toEqual([1, 12])
+    expect(sorted(cron.weekdays)).toEqual([0])
+  })
+
+  test("folds 7 onto Sunday", () => {
+    expect(sorted(parse("0 0 * * 5-7").weekdays)).toEqual([0, 5, 6])
+  })
+
+  test("expands aliases", () => {
+    expect(parse("@weekdays").expression).toBe("0 9 * * 1-5")
+    expect(parse(" @Daily ").expression).toBe("0 0 * * *")
+  })
+
+  test("only ORs the day fields when both are restricted", () => {
+    expect(parse("0 0 1 * 1").anyDay).toBe(true)
+    expect(parse("0 0 1 * *").anyDay).toBe(false)
+  })
+
+  test("explains what is wrong", () => {
+    expect(parseCron("0 9 * *")).toContain("5 fields")
+    expect(parseCron("60 * * * *")).toBe("Invalid minute: 60")
+    expect(parseCron("* 5-2 * * *")).toBe("Invalid hour: 5-2")
+    expect(parseCron("*/0 * * * *")).toBe("Invalid step in minute: */0")
+    expect(parseCron("* * * foo *")).toBe("Invalid month: foo")
+  })
+})
+
+describe("nextRun", () => {
+  // Local time, like the scheduler
+  const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+    new Date(year, month - 1, day, hour, minute)
+
+  test("finds the next matching minute, never the current one", () => {
+    expect(nextRun(parse("*/15 * * * *"), at(2026, 3, 10, 9, 15))).toEqual(at(2026, 3, 10, 9, 30))
+    expect(nextRun(parse("0 9 * * *"), at(2026, 3, 10, 9, 0))).toEqual(at(2026, 3, 11, 9))
+  })
+
+  test("skips to the next matching weekday", () => {
+    // 2026-03-13 is a Friday
+    expect(nextRun(parse("@weekdays"), at(2026, 3, 13, 10))).toEqual(at(2026, 3, 16, 9))
+  })
+
+  test("rolls over months and years", () => {
+    expect(nextRun(parse("@monthly"), at(2026, 12, 15))).toEqual(at(2027, 1, 1))
+  })
+
+  test("matches either day field when both are set", () => {
+    // The 1st, or any Monday; 2026-03-02 is a Monday
+    expect(nextRun(parse("0 0 1 * 1"), at(2026, 2, 27))).toEqual(at(2026, 3, 1))
+    expect(nextRun(parse("0 0 1 * 1"), at(2026, 3, 1, 1))).toEqual(at(2026, 3, 2))
+  })
+
+  test("gives up on dates that never come", () => {
+    expect(nextRun(parse("0 0 31 2 *"), at(2026, 1, 1))).toBeNull()
+  })
+})
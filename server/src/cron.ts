@@ -0,0 +1,130 @@
+// --- Five-field cron expressions (minute hour day-of-month month day-of-week) ---
+
+export interface Cron {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  /** Standard cron: when both day fields are restricted, either may match */
+  anyDay: boolean
+}
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekdays": "0 9 * * 1-5",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+
+interface Field {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+  /** Value names count from (1 for months) */
+  nameBase?: number
+}
+
+const FIELDS: Field[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameBase: 0 },
+]
+
+function parseValue(text: string, field: Field): number {
+  const index = field.names?.indexOf(text.toLowerCase()) ?? -1
+  if (index >= 0) return index + (field.nameBase ?? 0)
+  return /^\d+$/.test(text) ? Number(text) : NaN
+}
+
+/** Parse one field ("*", "1-5", "*\/15", "mon,wed,fri"). Returns an error message on failure. */
+function parseField(text: string, field: Field): Set<number> | string {
+  const values = new Set<number>()
+  for (const item of text.split(",")) {
+    const [range, stepText] = item.split("/")
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) return `Invalid step in ${field.name}: ${item}`
+
+    let start = field.min
+    let end = field.max
+    if (range !== "*") {
+      const [from, to] = range.split("-")
+      start = parseValue(from, field)
+      end = to === undefined ? (stepText === undefined ? start : field.max) : parseValue(to, field)
+    }
+    if (!(start >= field.min && end <= field.max && start <= end)) {
+      return `Invalid ${field.name}: ${item}`
+    }
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+  return values
+}
+
+/** Parse an expression or alias (e.g. "0 9 * * 1-5", "@daily"). Returns an error message on failure. */
+export function parseCron(expression: string): Cron | string {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim()
+  const parts = normalized.split(/\s+/)
+  if (parts.length !== FIELDS.length) {
+    return "A schedule needs 5 fields: minute hour day-of-month month day-of-week"
+  }
+  const sets: Set<number>[] = []
+  for (const [i, field] of FIELDS.entries()) {
+    const set = parseField(parts[i], field)
+    if (typeof set === "string") return set
+    sets.push(set)
+  }
+  const [minutes, hours, days, months, weekdays] = sets
+  if (weekdays.delete(7)) weekdays.add(0)
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] !== "*" && parts[4] !== "*",
+  }
+}
+
+function dayMatches(cron: Cron, date: Date): boolean {
+  const day = cron.days.has(date.getDate())
+  const weekday = cron.weekdays.has(date.getDay())
+  return cron.anyDay ? day || weekday : day && weekday
+}
+
+/**
+ * First matching minute after `after`, in the server's local time (set TZ
+ * in the container). Null if nothing matches within a few years (Feb 31).
+ */
+export function nextRun(cron: Cron, after: Date): Date | null {
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+  const limit = after.getTime() + 4 * 366 * 86_400_000
+
+  while (date.getTime() < limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+    } else if (!dayMatches(cron, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+    } else {
+      return date
+    }
+  }
+  return null
+}
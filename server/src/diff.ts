@@ -0,0 +1,131 @@
+// --- Minimal line diff (common prefix/suffix trim + LCS) ---
+
+export interface DiffLine {
+  type: "same" | "add" | "del"
+  text: string
+}
+
+export interface Hunk {
+  header: string
+  lines: DiffLine[]
+}
+
+// Beyond this many LCS cells the middle is shown as a full replacement
+const MAX_CELLS = 4_000_000
+
+function lcs(a: string[], b: string[]): DiffLine[] {
+  const n = a.length
+  const m = b.length
+  const table = new Uint32Array((n + 1) * (m + 1))
+  const at = (i: number, j: number) => i * (m + 1) + j
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] =
+        a[i] === b[j]
+          ? table[at(i + 1, j + 1)] + 1
+          : Math.max(table[at(i + 1, j)], table[at(i, j + 1)])
+    }
+  }
+
+  const out: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push({ type: "same", text: a[i] })
+      i++
+      j++
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      out.push({ type: "del", text: a[i++] })
+    } else {
+      out.push({ type: "add", text: b[j++] })
+    }
+  }
+  while (i < n) out.push({ type: "del", text: a[i++] })
+  while (j < m) out.push({ type: "add", text: b[j++] })
+  return out
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split("\n")
+  const b = after === "" ? [] : after.split("\n")
+
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const middle =
+    midA.length * midB.length > MAX_CELLS
+      ? [
+          ...midA.map((text) => ({ type: "del" as const, text })),
+          ...midB.map((text) => ({ type: "add" as const, text })),
+        ]
+      : lcs(midA, midB)
+
+  return [
+    ...a.slice(0, start).map((text) => ({ type: "same" as const, text })),
+    ...middle,
+    ...a.slice(endA).map((text) => ({ type: "same" as const, text })),
+  ]
+}
+
+/** Group a diff into unified-diff hunks with `context` unchanged lines around changes. */
+export function toHunks(lines: DiffLine[], context = 3): Hunk[] {
+  const hunks: Hunk[] = []
+  const changed = lines
+    .map((line, index) => (line.type === "same" ? -1 : index))
+    .filter((index) => index >= 0)
+  if (changed.length === 0) return hunks
+
+  // Line numbers before each index, for hunk headers
+  const oldNo: number[] = []
+  const newNo: number[] = []
+  let o = 1
+  let n = 1
+  for (const line of lines) {
+    oldNo.push(o)
+    newNo.push(n)
+    if (line.type !== "add") o++
+    if (line.type !== "del") n++
+  }
+
+  let k = 0
+  while (k < changed.length) {
+    const from = Math.max(changed[k] - context, 0)
+    let to = changed[k]
+    while (k + 1 < changed.length && changed[k + 1] - to <= context * 2 + 1) {
+      to = changed[++k]
+    }
+    to = Math.min(to + context, lines.length - 1)
+    k++
+
+    const slice = lines.slice(from, to + 1)
+    const oldCount = slice.filter((l) => l.type !== "add").length
+    const newCount = slice.filter((l) => l.type !== "del").length
+    hunks.push({
+      header: `@@ -${oldNo[from]},${oldCount} +${newNo[from]},${newCount} @@`,
+      lines: slice,
+    })
+  }
+  return hunks
+}
+
+export function unifiedDiff(path: string, before: string, after: string): string {
+  const out = [`--- a/${path}`, `+++ b/${path}`]
+  for (const hunk of toHunks(diffLines(before, after))) {
+    out.push(hunk.header)
+    for (const line of hunk.lines) {
+      const sign = line.type === "add" ? "+" : line.type === "del" ? "-" : " "
+      out.push(sign + line.text)
+    }
+  }
+  return out.join("\n")
+}
@@ -1,5 +1,7 @@
 // --- Simple Event Bus for SSE broadcasting ---
 
+import type { JobView } from "./jobs"
+import type { PendingPermission, PermissionDecision } from "./permission"
 import type { MessageInfo, MessagePart, SessionInfo } from "./session"
 
 export type ServerEvent =
@@ -17,6 +19,60 @@ export type ServerEvent =
       type: "message.part.delta"
       properties: { sessionId: string; messageId: string; delta: string }
     }
+  | { type: "job.updated"; properties: { sessionId: string; job: JobView } }
+  | { type: "job.completed"; properties: { sessionId: string; job: JobView } }
+  | {
+      type: "session.queued"
+      properties: {
+        sessionId: string
+        jobId: string
+        /** Place in line, 1 = starts next */
+        position: number
+        /** Agent runs in progress, out of `limit` */
+        running: number
+        limit: number
+      }
+    }
+  | {
+      type: "session.aborted"
+      properties: {
+        sessionId: string
+        jobId: string
+        prompt: string
+        /** Text produced before the abort */
+        result: string
+        costUsd: number
+        durationMs: number
+        toolCount: number
+      }
+    }
+  | { type: "hook.fired"; properties: { sessionId: string; hook: string; jobId: string } }
+  | {
+      type: "schedule.fired"
+      properties: {
+        sessionId: string
+        scheduleId: string
+        target: string | null
+        jobId: string
+        prompt: string
+      }
+    }
+  | {
+      type: "schedule.skipped"
+      properties: { sessionId: string; scheduleId: string; target: string | null; reason: string }
+    }
+  | {
+      type: "permission.requested"
+      properties: { sessionId: string; permission: PendingPermission }
+    }
+  | {
+      type: "permission.resolved"
+      properties: {
+        sessionId: string
+        permissionId: string
+        decision: PermissionDecision
+      }
+    }
 
 type Subscriber = (event: ServerEvent) => void
 
@@ -0,0 +1,270 @@
+// --- Git helpers: working-tree snapshots, diff summaries, commits, branches ---
+
+import { execFile } from "node:child_process"
+import { randomUUID } from "node:crypto"
+import { copyFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { isAbsolute, join } from "node:path"
+import { promisify } from "node:util"
+
+const execFileAsync = promisify(execFile)
+
+export interface Snapshot {
+  /** Commit whose tree is the full working tree (incl. untracked files) */
+  commit: string
+  /** HEAD at snapshot time, null in a repo without commits */
+  head: string | null
+  createdAt: string
+}
+
+export interface FileChange {
+  status: string
+  path: string
+}
+
+const SNAPSHOT_REFS = "refs/claude-line/snapshots/"
+// Older snapshot refs are deleted; /undo cannot go back further than this
+const snapshotTtlMs = Number(process.env.GIT_SNAPSHOT_TTL_HOURS ?? 168) * 60 * 60 * 1000
+
+const fallbackIdentity = {
+  name: process.env.GIT_AUTHOR_NAME ?? "Claude Code LINE",
+  email: process.env.GIT_AUTHOR_EMAIL ?? "claude-line@localhost",
+}
+
+async function git(
+  cwd: string,
+  args: string[],
+  env: Record<string, string> = {},
+): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    env: { ...process.env, ...env },
+    maxBuffer: 32 * 1024 * 1024,
+  })
+  return stdout
+}
+
+export async function isGitRepo(cwd: string): Promise<boolean> {
+  return git(cwd, ["rev-parse", "--is-inside-work-tree"]).then(
+    (out) => out.trim() === "true",
+    () => false,
+  )
+}
+
+/** Whether cwd is the top of its repository, not a subdirectory of one. */
+export async function isRepoRoot(cwd: string): Promise<boolean> {
+  return git(cwd, ["rev-parse", "--show-prefix"]).then(
+    (out) => out.trim() === "",
+    () => false,
+  )
+}
+
+async function headCommit(cwd: string): Promise<string | null> {
+  return git(cwd, ["rev-parse", "--verify", "-q", "HEAD"]).then(
+    (out) => out.trim() || null,
+    () => null,
+  )
+}
+
+/** Use the repo's configured identity, falling back to a bot identity. */
+async function identityArgs(cwd: string): Promise<string[]> {
+  const email = await git(cwd, ["config", "user.email"]).catch(() => "")
+  if (email.trim()) return []
+  return [
+    "-c",
+    `user.name=${fallbackIdentity.name}`,
+    "-c",
+    `user.email=${fallbackIdentity.email}`,
+  ]
+}
+
+/**
+ * Run git with a throwaway index seeded from the real one, so staging the
+ * whole working tree never disturbs what the user has staged.
+ */
+async function withTempIndex<T>(
+  cwd: string,
+  fn: (env: Record<string, string>) => Promise<T>,
+): Promise<T> {
+  const tempIndex = join(tmpdir(), `claude-line-index-${randomUUID()}`)
+  const realIndex = (await git(cwd, ["rev-parse", "--git-path", "index"])).trim()
+  await copyFile(isAbsolute(realIndex) ? realIndex : join(cwd, realIndex), tempIndex).catch(
+    () => {},
+  )
+  try {
+    return await fn({ GIT_INDEX_FILE: tempIndex })
+  } finally {
+    await rm(tempIndex, { force: true })
+  }
+}
+
+/**
+ * The index with cwd's part of the working tree added. A project in a
+ * subdirectory of a repo leaves the rest of the repo as it is in the index.
+ */
+async function workingTree(cwd: string): Promise<string> {
+  return withTempIndex(cwd, async (env) => {
+    await git(cwd, ["add", "-A", "--", "."], env)
+    return (await git(cwd, ["write-tree"], env)).trim()
+  })
+}
+
+/** Record the working tree before a prompt; returns null outside a git repo. */
+export async function takeSnapshot(
+  cwd: string,
+  sessionId: string,
+): Promise<Snapshot | null> {
+  if (!(await isGitRepo(cwd))) return null
+  const head = await headCommit(cwd)
+  const tree = await workingTree(cwd)
+  const commit = (
+    await git(cwd, [
+      ...(await identityArgs(cwd)),
+      "commit-tree",
+      tree,
+      ...(head ? ["-p", head] : []),
+      "-m",
+      `claude-line snapshot (${sessionId})`,
+    ])
+  ).trim()
+  // Keep the snapshot reachable so gc doesn't collect it
+  await git(cwd, ["update-ref", `${SNAPSHOT_REFS}${sessionId}`, commit])
+  await pruneSnapshots(cwd)
+  return { commit, head, createdAt: new Date().toISOString() }
+}
+
+export function snapshotExpired(snapshot: Snapshot): boolean {
+  return Date.now() - Date.parse(snapshot.createdAt) > snapshotTtlMs
+}
+
+/** Delete snapshot refs past GIT_SNAPSHOT_TTL_HOURS, so gc can collect them. */
+async function pruneSnapshots(cwd: string): Promise<void> {
+  const cutoff = (Date.now() - snapshotTtlMs) / 1000
+  const refs = await git(cwd, ["for-each-ref", "--format=%(committerdate:unix) %(refname)", SNAPSHOT_REFS])
+  for (const line of refs.split("\n").filter(Boolean)) {
+    const [time, ref] = line.split(" ")
+    if (Number(time) < cutoff) await git(cwd, ["update-ref", "-d", ref])
+  }
+}
+
+/** Forget a session's snapshot once /undo can no longer use it. */
+export async function dropSnapshot(cwd: string, sessionId: string): Promise<void> {
+  await git(cwd, ["update-ref", "-d", `${SNAPSHOT_REFS}${sessionId}`]).catch(() => {})
+}
+
+/**
+ * Put cwd's part of the working tree (and HEAD, if the agent committed)
+ * back to the snapshot. Returns the restored or removed paths, relative to cwd.
+ */
+export async function restoreSnapshot(
+  cwd: string,
+  snapshot: Snapshot,
+): Promise<string[]> {
+  const current = await workingTree(cwd)
+  const split = (out: string) => out.split("\0").filter(Boolean)
+  // Relative to cwd and limited to it, like checkout-index and rm below
+  const changed = split(
+    await git(cwd, ["diff", "--name-only", "-z", "--relative", snapshot.commit, current, "--", "."]),
+  )
+  const added = split(
+    await git(cwd, [
+      "diff",
+      "--name-only",
+      "-z",
+      "--relative",
+      "--diff-filter=A",
+      snapshot.commit,
+      current,
+      "--",
+      ".",
+    ]),
+  )
+
+  if (snapshot.head && (await headCommit(cwd)) !== snapshot.head) {
+    await git(cwd, ["reset", "-q", "--mixed", snapshot.head])
+  }
+
+  const toRestore = changed.filter((path) => !added.includes(path))
+  if (toRestore.length > 0) {
+    await withTempIndex(cwd, async (env) => {
+      await git(cwd, ["read-tree", snapshot.commit], env)
+      await git(cwd, ["checkout-index", "-f", "--", ...toRestore], env)
+    })
+  }
+  for (const path of added) {
+    await rm(join(cwd, path), { force: true })
+  }
+  return changed
+}
+
+export async function currentBranch(cwd: string): Promise<string | null> {
+  return git(cwd, ["symbolic-ref", "--short", "-q", "HEAD"]).then(
+    (out) => out.trim() || null,
+    () => null,
+  )
+}
+
+/** Uncommitted changes under cwd, including untracked files; paths are relative to cwd. */
+export async function getChanges(
+  cwd: string,
+): Promise<{ branch: string | null; files: FileChange[]; stat: string }> {
+  // Porcelain paths are relative to the repo root whatever the cwd
+  const prefix = (await git(cwd, ["rev-parse", "--show-prefix"])).trim()
+  const status = await git(cwd, ["status", "--porcelain", "-z", "--untracked-files=all", "--", "."])
+  const files: FileChange[] = []
+  const entries = status.split("\0").filter(Boolean)
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    const path = entry.slice(3)
+    files.push({ status: entry.slice(0, 2).trim(), path: path.startsWith(prefix) ? path.slice(prefix.length) : path })
+    // Renames and copies are followed by their source path
+    if (entry[0] === "R" || entry[0] === "C") i++
+  }
+  const head = await headCommit(cwd)
+  const stat = head ? await git(cwd, ["diff", "--stat", "--relative", "HEAD", "--", "."]) : ""
+  return { branch: await currentBranch(cwd), files, stat: stat.trim() }
+}
+
+/** File content at HEAD (path relative to cwd), or null if it isn't tracked there. */
+export async function readAtHead(cwd: string, path: string): Promise<Buffer | null> {
+  // As bytes: binary files must not go through a string
+  return execFileAsync("git", ["show", `HEAD:./${path}`], {
+    cwd,
+    encoding: "buffer",
+    maxBuffer: 32 * 1024 * 1024,
+  }).then(
+    ({ stdout }) => stdout,
+    () => null,
+  )
+}
+
+/** Stage and commit everything under cwd. Returns null when there is nothing to commit. */
+export async function commitAll(
+  cwd: string,
+  message: string,
+): Promise<{ commit: string; summary: string } | null> {
+  await git(cwd, ["add", "-A", "--", "."])
+  const staged = await git(cwd, ["diff", "--cached", "--name-only", "--", "."])
+  if (!staged.trim()) return null
+  await git(cwd, [...(await identityArgs(cwd)), "commit", "-q", "-m", message, "--", "."])
+  const commit = (await git(cwd, ["rev-parse", "--short", "HEAD"])).trim()
+  const summary = (await git(cwd, ["show", "--stat", "--format=", "HEAD"])).trim()
+  return { commit, summary }
+}
+
+/**
+ * Switch to `branch`, creating it from the current HEAD if needed. Only at
+ * a repo's root: in a subdirectory it would switch the tree under every
+ * project that shares the repo.
+ */
+export async function ensureBranch(cwd: string, branch: string): Promise<void> {
+  if (!(await isRepoRoot(cwd))) {
+    throw new Error("Branch per session needs the session directory to be the repository root")
+  }
+  if ((await currentBranch(cwd)) === branch) return
+  const exists = await git(cwd, ["rev-parse", "--verify", "-q", `refs/heads/${branch}`]).then(
+    () => true,
+    () => false,
+  )
+  await git(cwd, exists ? ["switch", "-q", branch] : ["switch", "-q", "-c", branch])
+}
@@ -0,0 +1,106 @@
+// --- Inbound webhooks (CI, git hosts) that run a prompt template ---
+
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { readFileSync } from "node:fs"
+import { createLogger } from "./log"
+
+export interface HookConfig {
+  /** Shared secret; "$NAME" reads it from the environment */
+  secret: string
+  /** Template with {{payload}} and {{dotted.path}} placeholders */
+  prompt: string
+  /** Project or directory to run in (default: the workspace root) */
+  directory?: string
+  description?: string
+  model?: string
+  max_turns?: number
+  max_budget?: number
+  /** The payload is untrusted, so runs are read-only unless this is false */
+  read_only?: boolean
+}
+
+const hooksFile = process.env.HOOKS_FILE
+const maxPayloadChars = Number(process.env.HOOK_MAX_PAYLOAD_CHARS ?? 20_000)
+
+const log = createLogger("hooks")
+
+function loadHooks(): Map<string, HookConfig> {
+  const hooks = new Map<string, HookConfig>()
+  if (!hooksFile) return hooks
+  try {
+    const config = JSON.parse(readFileSync(hooksFile, "utf8")) as Record<string, HookConfig>
+    for (const [name, hook] of Object.entries(config)) {
+      const secret = hook.secret?.startsWith("$") ? process.env[hook.secret.slice(1)] : hook.secret
+      if (!secret || typeof hook.prompt !== "string") {
+        log.error("hook skipped: needs a secret and a prompt", { hook: name })
+        continue
+      }
+      hooks.set(name, { ...hook, secret })
+    }
+  } catch (err: any) {
+    log.error("failed to load hooks", { file: hooksFile, err })
+  }
+  return hooks
+}
+
+const hooks = loadHooks()
+
+export function getHook(name: string): HookConfig | undefined {
+  return hooks.get(name)
+}
+
+/** Names and descriptions only; secrets and templates stay on the server. */
+export function listHooks(): { name: string; description: string | null; directory: string | null }[] {
+  return Array.from(hooks, ([name, hook]) => ({
+    name,
+    description: hook.description ?? null,
+    directory: hook.directory ?? null,
+  }))
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Accepts GitHub's HMAC signature (X-Hub-Signature-256), GitLab's token
+ * (X-Gitlab-Token) or the secret itself in X-Hook-Secret.
+ */
+export function verifyHookSecret(
+  hook: HookConfig,
+  header: (name: string) => string | undefined,
+  body: string,
+): boolean {
+  const signature = header("x-hub-signature-256")
+  if (signature) {
+    const expected = `sha256=${createHmac("sha256", hook.secret).update(body).digest("hex")}`
+    return safeEqual(signature, expected)
+  }
+  const token = header("x-gitlab-token") ?? header("x-hook-secret")
+  return token !== undefined && safeEqual(token, hook.secret)
+}
+
+function clip(text: string): string {
+  return text.length > maxPayloadChars ? `${text.slice(0, maxPayloadChars)}\n… (truncated)` : text
+}
+
+/** Fill in the template. Non-JSON bodies are available as {{payload}} only. */
+export function renderHookPrompt(template: string, body: string): string {
+  let payload: unknown = body
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    // Plain text, e.g. a raw job log
+  }
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => {
+    if (path === "payload") {
+      return clip(typeof payload === "string" ? payload : JSON.stringify(payload, null, 2))
+    }
+    let value: any = payload
+    for (const key of path.split(".")) value = value?.[key]
+    if (value === undefined || value === null) return ""
+    return clip(typeof value === "string" ? value : JSON.stringify(value))
+  })
+}
@@ -1,36 +1,125 @@
 import { Hono } from "hono"
 import { cors } from "hono/cors"
+import { routePath } from "hono/route"
 import { streamSSE } from "hono/streaming"
-import { runClaude } from "./claude"
+import type { ContentfulStatusCode } from "hono/utils/http-status"
+import {
+  contentType,
+  readContent,
+  renderDiffPage,
+  sameContent,
+  saveArtifact,
+  toLink,
+  verifyArtifact,
+} from "./artifacts"
+import { capPromptBudget, checkBudget, getBudgetStatus, recordCost } from "./budget"
+import { defaultMaxBudget, runClaude } from "./claude"
 import { publish, subscribe } from "./events"
 import {
-  addMessage,
-  clearActiveAbort,
+  commitAll,
+  dropSnapshot,
+  getChanges,
+  isGitRepo,
+  readAtHead,
+  restoreSnapshot,
+  snapshotExpired,
+} from "./git"
+import {
+  cancelQueuedJobs,
+  cancelWaitingJob,
+  enqueueJob,
+  getJob,
+  listJobs,
+  queueDepth,
+  resumeJobs,
+  runningJob,
+  sessionQueuePosition,
+  toJobView,
+  waitForJob,
+} from "./jobs"
+import {
+  denyAllTools,
+  listPendingPermissions,
+  respondPermission,
+  type PermissionDecision,
+} from "./permission"
+import { createLogger, withLogContext } from "./log"
+import { counter, gauge, renderMetrics } from "../../shared/metrics"
+import { maxConcurrent, runInPool, runningRuns } from "./pool"
+import { billedUser, observePrompt, parsePromptRequest } from "./prompt"
+import {
+  archiveSession,
   createSession,
+  defaultPermissionMode,
   deleteSession,
   getSession,
   listSessions,
-  setActiveAbort,
+  overlappingSessions,
+  restoreSession,
   updateSession,
   abortSession,
 } from "./session"
+import {
+  createProject,
+  isValidProjectName,
+  listProjects,
+  resolveDirectory,
+  workspaceRoot,
+} from "./project"
+import { getHook, listHooks, renderHookPrompt, verifyHookSecret } from "./hooks"
+import { listCommands } from "./commands"
+import { createSchedule, deleteSchedule, listSchedules, startScheduler } from "./schedule"
+import { storeBackend } from "./store"
+import { renderTranscript } from "./transcript"
 
 const port = Number(process.env.PORT ?? 4096)
 const apiPassword = process.env.API_PASSWORD
 const defaultModel = process.env.CLAUDE_MODEL ?? "sonnet"
+const MAX_DIFF_ARTIFACTS = 20
 
 type Env = { Variables: { directory: string } }
 const app = new Hono<Env>()
 
+const log = createLogger("http")
+const httpRequests = counter("claude_line_http_requests_total", "HTTP requests, by method, route and status")
+const errorsTotal = counter("claude_line_errors_total", "Errors, by source")
+gauge("claude_line_sessions", "Sessions, by state", () => {
+  const counts = { idle: 0, running: 0, cancelled: 0, archived: 0 }
+  for (const session of listSessions()) {
+    counts[session.archivedAt ? "archived" : session.status]++
+  }
+  return Object.entries(counts).map(([state, n]) => [{ state }, n])
+})
+gauge("claude_line_job_queue_depth", "Prompt jobs waiting to run", queueDepth)
+gauge("claude_line_agent_runs", "Agent runs in progress (at most MAX_CONCURRENT_PROMPTS)", runningRuns)
+
 // --- Middleware ---
 app.use("*", cors())
 
+// Request id (from the bot's X-Request-Id when present) on every log line
+app.use("*", async (c, next) => {
+  const requestId = c.req.header("x-request-id") || crypto.randomUUID()
+  c.header("X-Request-Id", requestId)
+  await withLogContext({ requestId }, () => next())
+  if (c.req.path !== "/metrics") {
+    httpRequests.inc({ method: c.req.method, route: routePath(c, -1), status: String(c.res.status) })
+  }
+  if (c.res.status >= 500) {
+    errorsTotal.inc({ source: "http" })
+    log.error("request failed", { method: c.req.method, path: c.req.path, status: c.res.status })
+  }
+})
+
 // Optional auth
 if (apiPassword) {
   app.use("*", async (c, next) => {
-    if (c.req.path === "/health" || c.req.path === "/" || c.req.path === "/event") {
+    // /event carries tool inputs, artifact links and hook results, so it needs auth too
+    if (c.req.path === "/health" || c.req.path === "/") {
       return next()
     }
+    // Artifact links carry their own signature, inbound hooks their own secret
+    if (c.req.path.startsWith("/artifact/")) return next()
+    if (c.req.method === "POST" && c.req.path.startsWith("/hook/")) return next()
 
     const auth = c.req.header("Authorization")
     if (!auth) {
@@ -55,13 +144,15 @@ if (apiPassword) {
   })
 }
 
-// Directory middleware: x-opencode-directory header or ?directory= query param
+// Directory middleware: x-opencode-directory header or ?directory= query param,
+// confined to the workspace root (and ALLOWED_ROOTS)
 app.use("*", async (c, next) => {
-  const directory =
-    c.req.query("directory") ||
-    c.req.header("x-opencode-directory") ||
-    process.env.WORKSPACE_DIR ||
-    "/workspace"
+  const requested =
+    c.req.query("directory") || c.req.header("x-opencode-directory")
+  const directory = resolveDirectory(requested)
+  if (!directory) {
+    return c.json({ error: `Directory not allowed: ${requested}` }, 403)
+  }
   c.set("directory", directory)
   return next()
 })
@@ -78,13 +169,34 @@ app.get("/", (c) => {
       "POST /query — Send a prompt (stateless)",
       "GET  /models — List available models",
       "GET  /health — Health check",
+      "GET  /metrics — Prometheus metrics",
+      "GET  /budget?user= — Spend and budget caps",
+      "GET  /project — List projects (workspace subdirectories)",
+      "POST /project — Create a project directory",
       "POST /session — Create a session",
       "GET  /session — List sessions",
-      "GET  /session/:id — Get session details",
+      "GET  /session/:id — Get session details and queue position",
       "GET  /session/:id/message — Get session messages",
-      "POST /session/:id/message — Send prompt in session",
+      "POST /session/:id/message — Send prompt in session (waits for the result)",
+      "POST /session/:id/job — Queue a prompt, returns a job id",
+      "GET  /session/:id/job — List a session's jobs",
+      "GET  /job/:id — Job status and result",
       "POST /session/:id/abort — Abort active prompt",
-      "DELETE /session/:id — Delete session",
+      "GET  /session/:id/diff — Uncommitted git changes",
+      "POST /session/:id/commit — Commit all changes",
+      "POST /session/:id/undo — Revert the last prompt's changes",
+      "GET  /session/:id/permission — List pending tool approvals",
+      "POST /session/:id/permission/:permissionId — Answer a tool approval",
+      "POST /session/:id/restore — Restore an archived session",
+      "POST /session/:id/export — Markdown transcript (signed download link)",
+      "DELETE /session/:id — Archive session (?purge=true deletes it)",
+      "GET  /hook — List inbound hooks",
+      "POST /hook/:name — Run a hook's prompt for a CI/git payload (per-hook secret)",
+      "GET  /schedule?owner= — List recurring prompts",
+      "POST /schedule — Run a prompt on a cron schedule",
+      "DELETE /schedule/:id — Remove a schedule",
+      "GET  /artifact/:id?exp=&sig= — Download a changed file (signed link)",
+      "GET  /artifact/:id/diff?exp=&sig= — View a file's diff as HTML (signed link)",
     ],
   })
 })
@@ -93,6 +205,10 @@ app.get("/health", (c) => {
   return c.json({ status: "ok", timestamp: new Date().toISOString() })
 })
 
+app.get("/metrics", (c) => {
+  return c.text(renderMetrics(), 200, { "Content-Type": "text/plain; version=0.0.4" })
+})
+
 app.get("/models", (c) => {
   return c.json({
     default: defaultModel,
@@ -104,11 +220,43 @@ app.get("/models", (c) => {
   })
 })
 
+app.get("/budget", (c) => {
+  return c.json(getBudgetStatus(c.req.query("user") || "anonymous"))
+})
+
+// --- Routes: Projects ---
+
+app.get("/project", async (c) => {
+  return c.json({ root: workspaceRoot, projects: await listProjects() })
+})
+
+// Custom slash commands for a directory (?directory=<project>)
+app.get("/command", async (c) => {
+  return c.json({ commands: await listCommands(c.get("directory")) })
+})
+
+app.post("/project", async (c) => {
+  const body = await c.req.json().catch(() => null)
+  const name = body?.name
+  if (typeof name !== "string" || !isValidProjectName(name)) {
+    return c.json(
+      { error: "'name' must be letters, digits, '.', '-' or '_' (max 64 chars)" },
+      400,
+    )
+  }
+  const project = await createProject(name)
+  if (!project) {
+    return c.json({ error: `Project '${name}' already exists` }, 409)
+  }
+  log.info("project created", { directory: project.directory })
+  return c.json(project)
+})
+
 // --- Routes: SSE Event Stream ---
 
 app.get("/event", (c) => {
   return streamSSE(c, async (stream) => {
-    console.log("[sse] client connected")
+    log.info("event stream connected")
 
     await stream.writeSSE({
       data: JSON.stringify({ type: "server.connected", properties: {} }),
@@ -128,7 +276,7 @@ app.get("/event", (c) => {
       stream.onAbort(() => {
         clearInterval(heartbeat)
         unsub()
-        console.log("[sse] client disconnected")
+        log.info("event stream disconnected")
         resolve()
       })
     })
@@ -145,18 +293,32 @@ app.post("/query", async (c) => {
 
   const { prompt, model, system_prompt, max_turns, max_budget } = body
   const directory = c.get("directory")
+  const user: string = body.user || "anonymous"
 
-  console.log(`[query] prompt: ${prompt.slice(0, 100)}...`)
+  const budget = checkBudget(user)
+  if (!budget.allowed) {
+    return c.json({ error: budget.reason, budget: getBudgetStatus(user) }, 402)
+  }
 
-  const result = await runClaude(prompt, {
-    model,
-    systemPrompt: system_prompt,
-    maxTurns: max_turns,
-    maxBudget: max_budget,
-    workspaceDir: directory,
-  })
+  log.info("query started", { chars: prompt.length })
+
+  // Shares the execution pool with session prompts
+  const result = await runInPool(user, `query-${crypto.randomUUID()}`, () =>
+    runClaude(prompt, {
+      model,
+      systemPrompt: system_prompt,
+      maxTurns: max_turns,
+      maxBudget: capPromptBudget(user, max_budget ?? defaultMaxBudget),
+      workspaceDir: directory,
+      permissionMode: defaultPermissionMode,
+      canUseTool: denyAllTools,
+    }),
+  )
+
+  const budgetWarning = recordCost(user, "query", result.cost_usd)
 
-  console.log(`[query] done: ${result.duration_ms}ms, cost: $${result.cost_usd.toFixed(4)}`)
+  observePrompt(model ?? defaultModel, result)
+  log.info("query finished", { durationMs: result.duration_ms, costUsd: result.cost_usd })
 
   return c.json({
     result: result.result,
@@ -165,16 +327,31 @@ app.post("/query", async (c) => {
     cost_usd: result.cost_usd,
     duration_ms: result.duration_ms,
     is_error: result.is_error,
+    budget_warning: budgetWarning,
+    usage: result.usage,
   })
 })
 
 // --- Routes: Session Management ---
 
 app.post("/session", async (c) => {
-  const directory = c.get("directory")
   const body = await c.req.json().catch(() => ({}))
-  const session = createSession(body?.directory || directory)
-  console.log(`[session] created: ${session.id} (dir: ${session.directory})`)
+  const directory = body?.directory
+    ? resolveDirectory(body.directory)
+    : c.get("directory")
+  if (!directory) {
+    return c.json({ error: `Directory not allowed: ${body.directory}` }, 403)
+  }
+  const permissionMode =
+    body?.permission_mode === "approve" || body?.permission_mode === "bypass"
+      ? body.permission_mode
+      : defaultPermissionMode
+  const session = createSession(directory, {
+    owner: typeof body?.owner === "string" ? body.owner : undefined,
+    permissionMode,
+    readOnly: body?.read_only === true,
+  })
+  log.info("session created", { sessionId: session.id, directory: session.directory })
   publish({ type: "session.created", properties: { session } })
   return c.json(session)
 })
@@ -189,7 +366,8 @@ app.get("/session/:id", (c) => {
   if (!session) {
     return c.json({ error: "Session not found" }, 404)
   }
-  return c.json(session)
+  // Place in line of its next prompt when waiting (0 otherwise)
+  return c.json({ ...session, queuePosition: sessionQueuePosition(id) })
 })
 
 app.get("/session/:id/message", (c) => {
@@ -208,58 +386,102 @@ app.post("/session/:id/message", async (c) => {
     return c.json({ error: "Session not found" }, 404)
   }
 
+  if (session.archivedAt) {
+    return c.json({ error: "Session is archived" }, 410)
+  }
+
   const body = await c.req.json().catch(() => null)
-  if (!body?.prompt) {
-    return c.json({ error: "Missing 'prompt' in request body" }, 400)
+  const request = parsePromptRequest(body)
+  if (typeof request === "string") {
+    return c.json({ error: request }, 400)
   }
 
-  if (session.status === "running") {
-    return c.json({ error: "Session is busy — use /session/:id/abort to cancel" }, 409)
+  const budget = checkBudget(billedUser(id, request))
+  if (!budget.allowed) {
+    return c.json({ error: budget.reason }, 402)
   }
 
-  const { prompt, model, system_prompt, max_turns, max_budget } = body
-  const abortController = new AbortController()
+  // Synchronous variant of POST /session/:id/job: queue, then wait
+  const job = await waitForJob(enqueueJob(id, request).id)
+  if (job.status === "failed") {
+    return c.json({ error: job.error }, (job.errorStatus ?? 500) as ContentfulStatusCode)
+  }
+  return c.json(job.result)
+})
 
-  updateSession(id, { status: "running" })
-  setActiveAbort(id, abortController)
-  publish({ type: "session.updated", properties: { session: getSession(id)! } })
+app.post("/session/:id/job", async (c) => {
+  const { id } = c.req.param()
+  const session = getSession(id)
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404)
+  }
 
-  console.log(`[session:${id}] prompt: ${prompt.slice(0, 100)}...`)
-
-  const result = await runClaude(prompt, {
-    model,
-    systemPrompt: system_prompt,
-    maxTurns: max_turns,
-    maxBudget: max_budget,
-    resumeSessionId: session.claudeSessionId ?? undefined,
-    workspaceDir: session.directory,
-    abortController,
-    sessionId: id,
-  })
+  const body = await c.req.json().catch(() => null)
+  const request = parsePromptRequest(body)
+  if (typeof request === "string") {
+    return c.json({ error: request }, 400)
+  }
 
-  // Update session state
-  updateSession(id, {
-    status: "idle",
-    claudeSessionId: result.session_id || session.claudeSessionId,
-    totalCost: session.totalCost + result.cost_usd,
-  })
-  for (const msg of result.messages) {
-    addMessage(id, msg)
+  const budget = checkBudget(billedUser(id, request))
+  if (!budget.allowed) {
+    return c.json({ error: budget.reason }, 402)
   }
-  clearActiveAbort(id)
-  publish({ type: "session.updated", properties: { session: getSession(id)! } })
 
-  console.log(`[session:${id}] done: ${result.duration_ms}ms, cost: $${result.cost_usd.toFixed(4)}`)
+  if (session.archivedAt) {
+    return c.json({ error: "Session is archived" }, 410)
+  }
 
-  return c.json({
-    result: result.result,
-    model: model ?? defaultModel,
-    session_id: result.session_id,
-    cost_usd: result.cost_usd,
-    total_cost_usd: session.totalCost + result.cost_usd,
-    duration_ms: result.duration_ms,
-    is_error: result.is_error,
-  })
+  const job = enqueueJob(id, request)
+  log.info("job queued", { sessionId: id, jobId: job.id })
+  return c.json(toJobView(job), 202)
+})
+
+// Summarise the conversation into a fresh Claude session; queued like a prompt
+app.post("/session/:id/compact", async (c) => {
+  const { id } = c.req.param()
+  const session = getSession(id)
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  if (session.archivedAt) {
+    return c.json({ error: "Session is archived" }, 410)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const request = {
+    prompt: "/compact",
+    model: body?.model,
+    system_prompt: body?.system_prompt,
+    max_budget: body?.max_budget,
+    user: body?.user,
+    attachments: [],
+    compact: true,
+  }
+  const budget = checkBudget(billedUser(id, request))
+  if (!budget.allowed) {
+    return c.json({ error: budget.reason }, 402)
+  }
+
+  const job = enqueueJob(id, request)
+  log.info("compaction queued", { sessionId: id, jobId: job.id })
+  return c.json(toJobView(job), 202)
+})
+
+app.get("/session/:id/job", (c) => {
+  const { id } = c.req.param()
+  if (!getSession(id)) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  return c.json({ jobs: listJobs(id).map(toJobView) })
+})
+
+app.get("/job/:id", (c) => {
+  const { id } = c.req.param()
+  const job = getJob(id)
+  if (!job) {
+    return c.json({ error: "Job not found" }, 404)
+  }
+  return c.json(toJobView(job))
 })
 
 app.post("/session/:id/abort", (c) => {
@@ -269,11 +491,136 @@ app.post("/session/:id/abort", (c) => {
     return c.json({ error: "Session not found" }, 404)
   }
 
+  // Still waiting for a slot: it never started, so it is cancelled right away
+  const waiting = cancelWaitingJob(id)
+  if (waiting) {
+    return c.json({ aborted: true, job: toJobView(waiting) })
+  }
+  // The job finishes as "cancelled" shortly after, see session.aborted
+  const job = runningJob(id)
   const aborted = abortSession(id)
-  if (aborted) {
-    publish({ type: "session.updated", properties: { session: getSession(id)! } })
+  return c.json({ aborted, job: aborted && job ? toJobView(job) : null })
+})
+
+// --- Routes: Git workflow ---
+
+app.get("/session/:id/diff", async (c) => {
+  const { id } = c.req.param()
+  const session = getSession(id)
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  if (!(await isGitRepo(session.directory))) {
+    return c.json({ error: "Session directory is not a git repository" }, 400)
+  }
+
+  const changes = await getChanges(session.directory)
+  // One diff page per file (vs HEAD) so the bot can link to them
+  const artifacts = []
+  for (const file of changes.files.slice(0, MAX_DIFF_ARTIFACTS)) {
+    const before = await readAtHead(session.directory, file.path)
+    const after = await readContent(`${session.directory}/${file.path}`)
+    if (sameContent(before, after)) continue
+    artifacts.push(toLink(saveArtifact(id, file.path, before, after)))
+  }
+  return c.json({ ...changes, artifacts, can_undo: session.snapshot !== null })
+})
+
+app.post("/session/:id/commit", async (c) => {
+  const { id } = c.req.param()
+  const session = getSession(id)
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  if (session.status === "running") {
+    return c.json({ error: "Session is busy — wait for the prompt to finish" }, 409)
+  }
+  if (!(await isGitRepo(session.directory))) {
+    return c.json({ error: "Session directory is not a git repository" }, 400)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const message = body?.message || `Changes from LINE session ${id}`
+  try {
+    const result = await commitAll(session.directory, message)
+    log.info("commit", { sessionId: id, commit: result?.commit ?? null })
+    // Committed work is no longer something /undo should roll back, for any
+    // session here: resetting to an older HEAD would drop this commit
+    if (result) {
+      for (const other of [session, ...overlappingSessions(session)]) {
+        if (!other.snapshot) continue
+        updateSession(other.id, { snapshot: null })
+        await dropSnapshot(other.directory, other.id)
+      }
+    }
+    return c.json({ committed: result !== null, ...result })
+  } catch (err: any) {
+    return c.json({ error: `git commit failed: ${err?.message}` }, 500)
+  }
+})
+
+app.post("/session/:id/undo", async (c) => {
+  const { id } = c.req.param()
+  const session = getSession(id)
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  if (session.status === "running") {
+    return c.json({ error: "Session is busy — abort the prompt first" }, 409)
+  }
+  if (!session.snapshot) {
+    return c.json({ error: "Nothing to undo" }, 400)
+  }
+  if (snapshotExpired(session.snapshot)) {
+    return c.json({ error: "Nothing to undo: the last prompt's snapshot has expired" }, 400)
+  }
+  // The snapshot covers the whole directory, so it would revert their edits too
+  const snapshotAt = session.snapshot.createdAt
+  const others = overlappingSessions(session)
+  if (others.some((other) => other.status === "running")) {
+    return c.json({ error: "Another session is running in this directory — try again when it finishes" }, 409)
+  }
+  if (others.some((other) => other.lastWriteAt !== null && other.lastWriteAt > snapshotAt)) {
+    return c.json({ error: "Another session has worked in this directory since your last prompt, so /undo would revert its changes too" }, 409)
+  }
+
+  try {
+    const restored = await restoreSnapshot(session.directory, session.snapshot)
+    updateSession(id, { snapshot: null })
+    await dropSnapshot(session.directory, id)
+    log.info("undo", { sessionId: id, files: restored.length })
+    return c.json({ undone: true, files: restored })
+  } catch (err: any) {
+    return c.json({ error: `Undo failed: ${err?.message}` }, 500)
   }
-  return c.json({ aborted })
+})
+
+app.get("/session/:id/permission", (c) => {
+  const { id } = c.req.param()
+  if (!getSession(id)) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  return c.json({ permissions: listPendingPermissions(id) })
+})
+
+app.post("/session/:id/permission/:permissionId", async (c) => {
+  const { id, permissionId } = c.req.param()
+  if (!getSession(id)) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+
+  const body = await c.req.json().catch(() => null)
+  const decision = body?.decision as PermissionDecision
+  if (!["allow", "deny", "always"].includes(decision)) {
+    return c.json({ error: "'decision' must be one of allow, deny, always" }, 400)
+  }
+
+  const resolved = respondPermission(id, permissionId, decision)
+  if (!resolved) {
+    return c.json({ error: "Permission request not found or already answered" }, 404)
+  }
+  log.info("permission answered", { sessionId: id, permissionId, decision })
+  return c.json({ resolved, decision, session: getSession(id) })
 })
 
 app.delete("/session/:id", (c) => {
@@ -282,18 +629,171 @@ app.delete("/session/:id", (c) => {
   if (!session) {
     return c.json({ error: "Session not found" }, 404)
   }
-  deleteSession(id)
-  publish({ type: "session.deleted", properties: { sessionId: id } })
+  // Sessions are archived so they can be resumed; purge removes them for good
+  if (c.req.query("purge") === "true") {
+    cancelQueuedJobs(id, "Session deleted")
+    if (session.snapshot) void dropSnapshot(session.directory, id)
+    deleteSession(id)
+    publish({ type: "session.deleted", properties: { sessionId: id } })
+    return c.json({ deleted: true })
+  }
+  cancelQueuedJobs(id, "Session archived")
+  archiveSession(id)
+  publish({ type: "session.updated", properties: { session: getSession(id)! } })
+  return c.json({ archived: true })
+})
+
+app.post("/session/:id/restore", (c) => {
+  const { id } = c.req.param()
+  if (!restoreSession(id)) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  const session = getSession(id)!
+  publish({ type: "session.updated", properties: { session } })
+  return c.json(session)
+})
+
+app.post("/session/:id/export", (c) => {
+  const { id } = c.req.param()
+  const session = getSession(id)
+  if (!session) {
+    return c.json({ error: "Session not found" }, 404)
+  }
+  const artifact = saveArtifact(id, `transcript-${id}.md`, null, renderTranscript(session))
+  return c.json({ messages: session.messages.length, link: toLink(artifact) })
+})
+
+// --- Routes: Schedules ---
+
+app.get("/schedule", (c) => {
+  return c.json({ schedules: listSchedules(c.req.query("owner") || undefined) })
+})
+
+app.post("/schedule", async (c) => {
+  const body = await c.req.json().catch(() => null)
+  if (typeof body?.cron !== "string" || typeof body?.owner !== "string" || !body.owner) {
+    return c.json({ error: "Missing 'cron' or 'owner' in request body" }, 400)
+  }
+  const request = parsePromptRequest({ ...body, attachments: undefined })
+  if (typeof request === "string") {
+    return c.json({ error: request }, 400)
+  }
+  const directory = body.directory ? resolveDirectory(body.directory) : c.get("directory")
+  if (!directory) {
+    return c.json({ error: `Directory not allowed: ${body.directory}` }, 403)
+  }
+  const schedule = createSchedule({
+    cron: body.cron,
+    request,
+    owner: body.owner,
+    target: typeof body.target === "string" ? body.target : null,
+    directory,
+    readOnly: body.read_only === true,
+  })
+  if (typeof schedule === "string") {
+    return c.json({ error: schedule }, 400)
+  }
+  return c.json(schedule, 201)
+})
+
+app.delete("/schedule/:id", (c) => {
+  const { id } = c.req.param()
+  if (!deleteSchedule(id)) {
+    return c.json({ error: "Schedule not found" }, 404)
+  }
   return c.json({ deleted: true })
 })
 
+// --- Routes: Inbound hooks (CI, git hosts) ---
+
+app.get("/hook", (c) => {
+  return c.json({ hooks: listHooks() })
+})
+
+app.post("/hook/:name", async (c) => {
+  const { name } = c.req.param()
+  const hook = getHook(name)
+  if (!hook) {
+    return c.json({ error: "Hook not found" }, 404)
+  }
+  const body = await c.req.text()
+  if (!verifyHookSecret(hook, (header) => c.req.header(header), body)) {
+    log.warn("hook secret mismatch", { hook: name })
+    return c.json({ error: "Invalid hook secret" }, 401)
+  }
+  // GitHub checks a new webhook with a ping; nothing to run
+  if (c.req.header("x-github-event") === "ping") {
+    return c.json({ ok: true })
+  }
+
+  const directory = hook.directory ? resolveDirectory(hook.directory) : workspaceRoot
+  if (!directory) {
+    return c.json({ error: `Directory not allowed: ${hook.directory}` }, 500)
+  }
+  // Hook runs are billed to the hook, so caps can be set for it like a user
+  const owner = `hook:${name}`
+  const budget = checkBudget(owner)
+  if (!budget.allowed) {
+    return c.json({ error: budget.reason }, 402)
+  }
+
+  // A fresh session per delivery keeps each run's transcript to itself
+  const session = createSession(directory, { owner, readOnly: hook.read_only !== false })
+  publish({ type: "session.created", properties: { session } })
+  const job = enqueueJob(session.id, {
+    prompt: renderHookPrompt(hook.prompt, body),
+    model: hook.model,
+    max_turns: hook.max_turns,
+    max_budget: hook.max_budget,
+    user: owner,
+    attachments: [],
+  })
+  log.info("hook triggered", { hook: name, sessionId: session.id, jobId: job.id })
+  publish({ type: "hook.fired", properties: { sessionId: session.id, hook: name, jobId: job.id } })
+  return c.json({ job: toJobView(job) }, 202)
+})
+
+// --- Routes: Artifacts (signed links, no auth header needed) ---
+
+app.get("/artifact/:id", (c) => {
+  const { id } = c.req.param()
+  const artifact = verifyArtifact(id, c.req.query("exp"), c.req.query("sig"))
+  if (!artifact || artifact.data === null) {
+    return c.json({ error: "Link invalid or expired" }, 404)
+  }
+  const name = artifact.path.split("/").pop() || "file"
+  return c.body(Buffer.from(artifact.data, "base64"), 200, {
+    "Content-Type": contentType(artifact),
+    "Content-Disposition": `attachment; filename="${name.replace(/"/g, "")}"`,
+  })
+})
+
+app.get("/artifact/:id/diff", (c) => {
+  const { id } = c.req.param()
+  const artifact = verifyArtifact(id, c.req.query("exp"), c.req.query("sig"))
+  if (!artifact) {
+    return c.html("<p>Link invalid or expired.</p>", 404)
+  }
+  return c.html(renderDiffPage(artifact, toLink(artifact).url))
+})
+
 // --- Start Server ---
 
-console.log("Claude Code Server v2.0 (Agent SDK)")
-console.log("- Port:", port)
-console.log("- Default model:", defaultModel)
-console.log("- Auth:", apiPassword ? "enabled" : "disabled")
-console.log("- Workspace:", process.env.WORKSPACE_DIR ?? "/workspace")
+createLogger("startup").info("Claude Code Server v2.0 (Agent SDK)", {
+  port,
+  defaultModel,
+  auth: Boolean(apiPassword),
+  permissionMode: defaultPermissionMode,
+  gitBranchPerSession: process.env.GIT_BRANCH_PER_SESSION === "true",
+  // 0 = unlimited
+  budgetCaps: getBudgetStatus("anonymous").caps,
+  workspace: workspaceRoot,
+  storage: storeBackend(),
+  maxConcurrentPrompts: maxConcurrent,
+})
+
+resumeJobs()
+startScheduler()
 
 export default {
   port,
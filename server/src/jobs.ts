@@ -0,0 +1,326 @@
+// --- Prompt jobs: persistent per-session queue around executePrompt ---
+
+import { publish } from "./events"
+import { createLogger, getLogContext, hashUser, withLogContext, type LogContext } from "./log"
+import { counter } from "../../shared/metrics"
+import {
+  acquireSlot,
+  cancelSlot,
+  maxConcurrent,
+  onPoolChange,
+  queuePosition,
+  releaseSlot,
+  runningRuns,
+  waitingKeys,
+} from "./pool"
+import {
+  billedUser,
+  executePrompt,
+  PromptError,
+  type PromptRequest,
+  type PromptResponse,
+} from "./prompt"
+import { createStore } from "./store"
+
+export type JobStatus = "queued" | "running" | "completed" | "cancelled" | "failed"
+
+export interface Job {
+  id: string
+  sessionId: string
+  status: JobStatus
+  request: PromptRequest
+  result: PromptResponse | null
+  error: string | null
+  /** HTTP-style status for failures (e.g. 402 budget exceeded) */
+  errorStatus: number | null
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+  /** Request id etc. of the submitting request, for log correlation */
+  logContext: LogContext
+}
+
+/**
+ * What clients see: the request minus attachment payloads. `position` is
+ * the job's place in line (0 = running or starting now).
+ */
+export type JobView = Omit<Job, "request" | "logContext"> & { prompt: string; position: number }
+
+const jobs = createStore<Job>("jobs")
+const queues = new Map<string, string[]>()
+const running = new Set<string>()
+const waiters = new Map<string, ((job: Job) => void)[]>()
+// Last position announced per queued job, so session.queued fires on changes only
+const announcedPositions = new Map<string, number>()
+
+let jobCounter = 0
+
+const log = createLogger("jobs")
+const jobsTotal = counter("claude_line_jobs_total", "Finished prompt jobs, by status")
+const errorsTotal = counter("claude_line_errors_total", "Errors, by source")
+
+// Finished jobs are kept this long so clients can still fetch results
+const JOB_RETENTION_MS = 7 * 86_400_000
+
+/**
+ * 0 = running now. Otherwise its place among jobs waiting for a pool slot,
+ * or the number of jobs ahead of it in its session's queue.
+ */
+function positionOf(job: Job): number {
+  if (job.status !== "queued") return 0
+  const pooled = queuePosition(job.id)
+  if (pooled > 0) return pooled
+  const queue = queues.get(job.sessionId) ?? []
+  return queue.indexOf(job.id) + (running.has(job.sessionId) ? 1 : 0)
+}
+
+export function toJobView(job: Job): JobView {
+  const { request, logContext, ...rest } = job
+  return { ...rest, prompt: request.prompt, position: positionOf(job) }
+}
+
+function isFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "cancelled" || job.status === "failed"
+}
+
+function save(job: Job): void {
+  jobs.set(job.id, job)
+  const view = toJobView(job)
+  if (isFinished(job)) {
+    publish({ type: "job.completed", properties: { sessionId: job.sessionId, job: view } })
+    for (const resolve of waiters.get(job.id) ?? []) resolve(job)
+    waiters.delete(job.id)
+    announcedPositions.delete(job.id)
+  } else {
+    publish({ type: "job.updated", properties: { sessionId: job.sessionId, job: view } })
+    announceQueued(job, view.position)
+  }
+}
+
+/** Tell clients a job is waiting, e.g. so a chat can say "you are #3 in line". */
+function announceQueued(job: Job, position: number): void {
+  if (job.status !== "queued" || position === 0) {
+    announcedPositions.delete(job.id)
+    return
+  }
+  if (announcedPositions.get(job.id) === position) return
+  announcedPositions.set(job.id, position)
+  publish({
+    type: "session.queued",
+    properties: {
+      sessionId: job.sessionId,
+      jobId: job.id,
+      position,
+      running: runningRuns(),
+      limit: maxConcurrent,
+    },
+  })
+}
+
+// Runs starting elsewhere move jobs waiting for a slot up the line
+onPoolChange(() => {
+  for (const id of waitingKeys()) {
+    const job = jobs.get(id)
+    if (job?.status === "queued") save(job)
+  }
+})
+
+function finish(job: Job, update: Partial<Job>): void {
+  Object.assign(job, update, { finishedAt: new Date().toISOString() })
+  // Attachments can be large and are no longer needed
+  job.request = { ...job.request, attachments: [] }
+  jobsTotal.inc({ status: job.status })
+  save(job)
+}
+
+async function pump(sessionId: string): Promise<void> {
+  if (running.has(sessionId)) return
+  const queue = queues.get(sessionId)
+  const nextId = queue?.shift()
+  if (!nextId) {
+    queues.delete(sessionId)
+    return
+  }
+  const queued = jobs.get(nextId)
+  if (!queued || queued.status !== "queued") return pump(sessionId)
+
+  running.add(sessionId)
+  // Stays queued while the server is running MAX_CONCURRENT_PROMPTS already
+  const owner = billedUser(sessionId, queued.request)
+  if (!(await acquireSlot(owner, nextId))) {
+    // Withdrawn while waiting: cancelQueuedJobs or cancelWaitingJob finished it
+    running.delete(sessionId)
+    return pump(sessionId)
+  }
+  // Read again: the store may hand out copies, so a cancel meanwhile isn't on `queued`
+  const job = jobs.get(nextId)
+  if (!job || job.status !== "queued") {
+    // Cancelled just as its slot came up
+    releaseSlot(owner)
+    running.delete(sessionId)
+    return pump(sessionId)
+  }
+
+  job.status = "running"
+  job.startedAt = new Date().toISOString()
+  save(job)
+
+  const fields = {
+    ...job.logContext,
+    sessionId,
+    jobId: job.id,
+    user: hashUser(owner),
+  }
+  try {
+    const result = await withLogContext(fields, () => executePrompt(sessionId, job.request))
+    finish(job, { status: result.cancelled ? "cancelled" : "completed", result })
+    if (result.cancelled) {
+      publish({
+        type: "session.aborted",
+        properties: {
+          sessionId,
+          jobId: job.id,
+          prompt: job.request.prompt,
+          result: result.result,
+          costUsd: result.cost_usd,
+          durationMs: result.duration_ms,
+          toolCount: result.tool_uses.length,
+        },
+      })
+    }
+  } catch (err: any) {
+    withLogContext(fields, () => log.error("job failed", { err }))
+    errorsTotal.inc({ source: "job" })
+    finish(job, {
+      status: "failed",
+      error: err?.message ?? "Unknown error",
+      errorStatus: err instanceof PromptError ? err.status : 500,
+    })
+  } finally {
+    releaseSlot(owner)
+    running.delete(sessionId)
+  }
+  // Let positions of the remaining jobs update
+  for (const id of queues.get(sessionId) ?? []) {
+    const queued = jobs.get(id)
+    if (queued) save(queued)
+  }
+  pump(sessionId)
+}
+
+export function enqueueJob(sessionId: string, request: PromptRequest): Job {
+  const job: Job = {
+    id: `j-${Date.now()}-${++jobCounter}`,
+    sessionId,
+    status: "queued",
+    request,
+    result: null,
+    error: null,
+    errorStatus: null,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    logContext: getLogContext(),
+  }
+  const queue = queues.get(sessionId) ?? []
+  queue.push(job.id)
+  queues.set(sessionId, queue)
+  save(job)
+  pump(sessionId)
+  return job
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id)
+}
+
+export function listJobs(sessionId: string): Job[] {
+  return jobs.values().filter((job) => job.sessionId === sessionId)
+}
+
+/** The job a session is working on right now, if any. */
+export function runningJob(sessionId: string): Job | undefined {
+  if (!running.has(sessionId)) return undefined
+  return listJobs(sessionId).find((job) => job.status === "running")
+}
+
+/** Place in line of the session's next waiting job; 0 when none is waiting. */
+export function sessionQueuePosition(sessionId: string): number {
+  const positions = listJobs(sessionId)
+    .filter((job) => job.status === "queued")
+    .map(positionOf)
+    .filter((position) => position > 0)
+  return positions.length > 0 ? Math.min(...positions) : 0
+}
+
+/** Jobs waiting to run, across all sessions (including those waiting for a slot). */
+export function queueDepth(): number {
+  let depth = waitingKeys().length
+  for (const queue of queues.values()) depth += queue.length
+  return depth
+}
+
+/** Resolves once the job has completed, been cancelled or failed. */
+export function waitForJob(id: string): Promise<Job> {
+  const job = jobs.get(id)
+  if (job && isFinished(job)) {
+    return Promise.resolve(job)
+  }
+  return new Promise((resolve) => {
+    waiters.set(id, [...(waiters.get(id) ?? []), resolve])
+  })
+}
+
+/** Fail everything still queued for a session (e.g. when it is deleted). */
+export function cancelQueuedJobs(sessionId: string, reason: string): void {
+  for (const job of listJobs(sessionId)) {
+    if (job.status === "queued") {
+      cancelSlot(job.id)
+      finish(job, { status: "failed", error: reason, errorStatus: 410 })
+    }
+  }
+  queues.delete(sessionId)
+}
+
+/** For /abort: cancel the session's job if it is still waiting for a pool slot. */
+export function cancelWaitingJob(sessionId: string): Job | undefined {
+  if (!running.has(sessionId)) return undefined
+  for (const job of listJobs(sessionId)) {
+    if (job.status === "queued" && cancelSlot(job.id)) {
+      finish(job, { status: "cancelled" })
+      return job
+    }
+  }
+  return undefined
+}
+
+/**
+ * After a restart: jobs that were mid-run are lost with the old process,
+ * queued ones are picked up again in order.
+ */
+export function resumeJobs(): void {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_MS).toISOString()
+  for (const job of jobs.values()) {
+    if (job.finishedAt && job.finishedAt < cutoff) jobs.delete(job.id)
+  }
+
+  const pending = jobs
+    .values()
+    .filter((job) => job.status === "queued" || job.status === "running")
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+  for (const job of pending) {
+    if (job.status === "running") {
+      finish(job, {
+        status: "failed",
+        error: "Interrupted by a server restart",
+        errorStatus: 500,
+      })
+      continue
+    }
+    const queue = queues.get(job.sessionId) ?? []
+    queue.push(job.id)
+    queues.set(job.sessionId, queue)
+  }
+  for (const sessionId of queues.keys()) pump(sessionId)
+}
@@ -0,0 +1,7 @@
+// --- Logging for the server; see shared/log.ts ---
+
+import { setLogService } from "../../shared/log"
+
+setLogService("server")
+
+export * from "../../shared/log"
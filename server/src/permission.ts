@@ -0,0 +1,121 @@
+// --- Interactive tool permission approvals ---
+
+import type { CanUseTool } from "@anthropic-ai/claude-agent-sdk"
+import { publish } from "./events"
+import { getSession, updateSession } from "./session"
+
+export type PermissionDecision = "allow" | "deny" | "always"
+
+export interface PendingPermission {
+  id: string
+  sessionId: string
+  toolName: string
+  toolInput: Record<string, unknown>
+  title?: string
+  createdAt: string
+}
+
+interface Waiter {
+  permission: PendingPermission
+  resolve: (decision: PermissionDecision) => void
+}
+
+const timeoutMs = Number(process.env.PERMISSION_TIMEOUT_MS ?? 300_000)
+const pending = new Map<string, Waiter>()
+
+export function listPendingPermissions(sessionId: string): PendingPermission[] {
+  return Array.from(pending.values())
+    .map((w) => w.permission)
+    .filter((p) => p.sessionId === sessionId)
+}
+
+/** Resolve a pending request. Returns false if it is unknown or already settled. */
+export function respondPermission(
+  sessionId: string,
+  permissionId: string,
+  decision: PermissionDecision,
+): boolean {
+  const waiter = pending.get(permissionId)
+  if (!waiter || waiter.permission.sessionId !== sessionId) return false
+  waiter.resolve(decision)
+  return true
+}
+
+function requestPermission(
+  permission: PendingPermission,
+  signal: AbortSignal,
+): Promise<PermissionDecision> {
+  return new Promise((resolve) => {
+    const settle = (decision: PermissionDecision) => {
+      if (!pending.has(permission.id)) return
+      pending.delete(permission.id)
+      clearTimeout(timer)
+      signal.removeEventListener("abort", onAbort)
+      publish({
+        type: "permission.resolved",
+        properties: {
+          sessionId: permission.sessionId,
+          permissionId: permission.id,
+          decision,
+        },
+      })
+      resolve(decision)
+    }
+    const onAbort = () => settle("deny")
+    const timer = setTimeout(() => settle("deny"), timeoutMs)
+    signal.addEventListener("abort", onAbort)
+
+    pending.set(permission.id, { permission, resolve: settle })
+    publish({
+      type: "permission.requested",
+      properties: { sessionId: permission.sessionId, permission },
+    })
+  })
+}
+
+/**
+ * Build the SDK permission callback for a session. Tools on the session's
+ * allow list run straight away; anything else becomes a pending approval
+ * that a client answers via POST /session/:id/permission/:permissionId.
+ */
+export function createPermissionHandler(sessionId: string, cancel?: AbortSignal): CanUseTool {
+  return async (toolName, input, options) => {
+    const session = getSession(sessionId)
+    if (session?.allowedTools.includes(toolName)) {
+      return { behavior: "allow", updatedInput: input }
+    }
+
+    const decision = await requestPermission(
+      {
+        id: options.toolUseID || crypto.randomUUID(),
+        sessionId,
+        toolName,
+        toolInput: input,
+        title: options.title,
+        createdAt: new Date().toISOString(),
+      },
+      // An aborted prompt shouldn't leave approvals waiting
+      cancel ? AbortSignal.any([options.signal, cancel]) : options.signal,
+    )
+
+    if (decision === "always") {
+      const current = getSession(sessionId)
+      if (current && !current.allowedTools.includes(toolName)) {
+        updateSession(sessionId, {
+          allowedTools: [...current.allowedTools, toolName],
+        })
+      }
+    }
+
+    if (decision === "deny") {
+      return { behavior: "deny", message: `User denied permission for ${toolName}` }
+    }
+    return { behavior: "allow", updatedInput: input }
+  }
+}
+
+/** Stateless queries have nobody to ask, so anything needing approval is denied. */
+export const denyAllTools: CanUseTool = async (toolName) => ({
+  behavior: "deny",
+  message: `${toolName} requires approval, which is unavailable for stateless queries`,
+})
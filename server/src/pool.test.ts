@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, test } from "bun:test"
+import { acquireSlot, cancelSlot, maxConcurrent, queuePosition, releaseSlot, runningRuns, waitingKeys } from "./pool"
+
+// Slots taken by a test, released again afterwards
+const held: string[] = []
+
+async function take(owner: string): Promise<void> {
+  expect(await acquireSlot(owner, `${owner}-${held.length}`)).toBe(true)
+  held.push(owner)
+}
+
+async function fill(owner: string): Promise<void> {
+  while (runningRuns() < maxConcurrent) await take(owner)
+}
+
+afterEach(() => {
+  for (const key of waitingKeys()) cancelSlot(key)
+  for (const owner of held.splice(0)) releaseSlot(owner)
+})
+
+describe("acquireSlot", () => {
+  test("starts at once while slots are free", async () => {
+    await take("a")
+    expect(runningRuns()).toBe(1)
+    expect(waitingKeys()).toEqual([])
+  })
+
+  test("lets an owner with fewer runs go ahead of earlier waiters", async () => {
+    await fill("a")
+    const a1 = acquireSlot("a", "a-1")
+    acquireSlot("a", "a-2")
+    const b1 = acquireSlot("b", "b-1")
+
+    expect(queuePosition("b-1")).toBe(1)
+    expect(queuePosition("a-1")).toBe(2)
+    expect(queuePosition("a-2")).toBe(3)
+
+    releaseSlot(held.pop()!)
+    expect(await b1).toBe(true)
+    held.push("b")
+    expect(queuePosition("a-1")).toBe(1)
+
+    releaseSlot(held.pop()!)
+    expect(await a1).toBe(true)
+    held.push("a")
+  })
+
+  test("queuePosition is 0 for unknown keys", () => {
+    expect(queuePosition("nobody")).toBe(0)
+  })
+})
+
+describe("cancelSlot", () => {
+  test("withdraws a waiter, which resolves false", async () => {
+    await fill("a")
+    const first = acquireSlot("b", "b-1")
+    acquireSlot("c", "c-1")
+    expect(queuePosition("c-1")).toBe(2)
+
+    expect(cancelSlot("b-1")).toBe(true)
+    expect(await first).toBe(false)
+    expect(waitingKeys()).toEqual(["c-1"])
+    expect(queuePosition("c-1")).toBe(1)
+  })
+
+  test("returns false for runs that are not waiting", async () => {
+    await take("a")
+    expect(cancelSlot("a-0")).toBe(false)
+    expect(cancelSlot("missing")).toBe(false)
+  })
+
+  test("a withdrawn run takes no slot", async () => {
+    await fill("a")
+    const waiter = acquireSlot("b", "b-1")
+    cancelSlot("b-1")
+    await waiter
+    releaseSlot(held.pop()!)
+    expect(runningRuns()).toBe(maxConcurrent - 1)
+  })
+})
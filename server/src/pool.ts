@@ -0,0 +1,139 @@
+// --- Execution pool: caps concurrent agent runs, taking turns between owners ---
+
+/** Agent processes allowed at once across all sessions */
+export const maxConcurrent = Math.max(1, Number(process.env.MAX_CONCURRENT_PROMPTS ?? 2))
+// 0 = an owner may use every free slot
+const maxPerOwner = Number(process.env.MAX_CONCURRENT_PER_OWNER ?? 0)
+
+interface Waiter {
+  /** Job or query id, for queuePosition */
+  key: string
+  /** true: a slot is taken for it; false: withdrawn by cancelSlot */
+  settle: (acquired: boolean) => void
+}
+
+// Owner → waiting runs, oldest first. Map order breaks ties between owners
+// with as many runs going: an owner moves to the back when one of its runs starts.
+const waiting = new Map<string, Waiter[]>()
+const runningByOwner = new Map<string, number>()
+let active = 0
+const listeners = new Set<() => void>()
+
+/** The owner whose run goes next: fewest runs going, then longest since its last turn. */
+function nextOwner(queues: Map<string, Waiter[]>, counts: Map<string, number>, cap: number): string | undefined {
+  let best: string | undefined
+  for (const owner of queues.keys()) {
+    const count = counts.get(owner) ?? 0
+    if (cap > 0 && count >= cap) continue
+    if (best === undefined || count < (counts.get(best) ?? 0)) best = owner
+  }
+  return best
+}
+
+/** Take the owner's oldest waiting run and send the owner to the back. */
+function takeTurn(queues: Map<string, Waiter[]>, counts: Map<string, number>, owner: string): Waiter {
+  const queue = queues.get(owner)!
+  const waiter = queue.shift()!
+  queues.delete(owner)
+  if (queue.length > 0) queues.set(owner, queue)
+  counts.set(owner, (counts.get(owner) ?? 0) + 1)
+  return waiter
+}
+
+function startWaiting(): void {
+  let changed = false
+  while (active < maxConcurrent) {
+    const owner = nextOwner(waiting, runningByOwner, maxPerOwner)
+    if (!owner) break
+    active++
+    takeTurn(waiting, runningByOwner, owner).settle(true)
+    changed = true
+  }
+  if (changed) notify()
+}
+
+function notify(): void {
+  for (const listener of listeners) listener()
+}
+
+/**
+ * Wait for a free slot; resolves false if cancelSlot withdrew the run first.
+ * The waiter is registered synchronously, so queuePosition(key) is accurate
+ * as soon as this returns.
+ */
+export function acquireSlot(owner: string, key: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    let started = false
+    const settle = (acquired: boolean) => {
+      started = true
+      resolve(acquired)
+    }
+    waiting.set(owner, [...(waiting.get(owner) ?? []), { key, settle }])
+    startWaiting()
+    // A new owner's run can go ahead of others' later runs
+    if (!started) notify()
+  })
+}
+
+export function releaseSlot(owner: string): void {
+  active--
+  const count = (runningByOwner.get(owner) ?? 1) - 1
+  if (count > 0) runningByOwner.set(owner, count)
+  else runningByOwner.delete(owner)
+  startWaiting()
+}
+
+/** Take a run out of line before it starts. Returns false if it isn't waiting. */
+export function cancelSlot(key: string): boolean {
+  for (const [owner, queue] of waiting) {
+    const index = queue.findIndex((waiter) => waiter.key === key)
+    if (index === -1) continue
+    const [waiter] = queue.splice(index, 1)
+    if (queue.length === 0) waiting.delete(owner)
+    waiter.settle(false)
+    notify()
+    return true
+  }
+  return false
+}
+
+/** Run `fn` in a slot, e.g. for POST /query which has no job. */
+export async function runInPool<T>(owner: string, key: string, fn: () => Promise<T>): Promise<T> {
+  if (!(await acquireSlot(owner, key))) throw new Error("Cancelled before it started")
+  try {
+    return await fn()
+  } finally {
+    releaseSlot(owner)
+  }
+}
+
+/**
+ * 1 = starts next, 0 = not waiting. Replays the turn order on a copy, so
+ * it is the order runs start in if nobody else arrives (per-owner caps aside).
+ */
+export function queuePosition(key: string): number {
+  const queues = new Map(Array.from(waiting, ([owner, queue]) => [owner, [...queue]]))
+  const counts = new Map(runningByOwner)
+  for (let position = 1; queues.size > 0; position++) {
+    const owner = nextOwner(queues, counts, 0)!
+    if (takeTurn(queues, counts, owner).key === key) return position
+  }
+  return 0
+}
+
+/** Ids of the runs waiting for a slot. */
+export function waitingKeys(): string[] {
+  return Array.from(waiting.values(), (queue) => queue.map((waiter) => waiter.key)).flat()
+}
+
+export function runningRuns(): number {
+  return active
+}
+
+/** Called whenever waiting positions may have moved. */
+export function onPoolChange(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,66 @@
+import { afterAll, describe, expect, test } from "bun:test"
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+// base/
+//   workspace/app, workspace/link-out → outside, workspace/link-in → app
+//   extra/ (ALLOWED_ROOTS), outside/
+const base = mkdtempSync(join(tmpdir(), "project-test-"))
+const workspace = join(base, "workspace")
+const extra = join(base, "extra")
+const outside = join(base, "outside")
+for (const dir of [join(workspace, "app"), extra, outside]) mkdirSync(dir, { recursive: true })
+symlinkSync(outside, join(workspace, "link-out"))
+symlinkSync(join(workspace, "app"), join(workspace, "link-in"))
+process.env.WORKSPACE_DIR = workspace
+process.env.ALLOWED_ROOTS = extra
+
+const { isInside, resolveDirectory } = await import("./project")
+
+afterAll(() => {
+  rmSync(base, { recursive: true, force: true })
+})
+
+describe("resolveDirectory", () => {
+  test("defaults to the workspace root", () => {
+    expect(resolveDirectory(undefined)).toBe(workspace)
+  })
+
+  test("resolves projects relative to the workspace", () => {
+    expect(resolveDirectory("app")).toBe(join(workspace, "app"))
+    expect(resolveDirectory(join(workspace, "app"))).toBe(join(workspace, "app"))
+  })
+
+  test("accepts directories that don't exist yet", () => {
+    expect(resolveDirectory("new/project")).toBe(join(workspace, "new/project"))
+  })
+
+  test("accepts the extra allowed roots", () => {
+    expect(resolveDirectory(extra)).toBe(extra)
+  })
+
+  test("rejects paths outside every root", () => {
+    expect(resolveDirectory("../outside")).toBeNull()
+    expect(resolveDirectory(outside)).toBeNull()
+    expect(resolveDirectory("/")).toBeNull()
+  })
+
+  test("rejects symlinks that lead out of the workspace", () => {
+    expect(resolveDirectory("link-out")).toBeNull()
+    expect(resolveDirectory("link-out/deeper")).toBeNull()
+  })
+
+  test("follows symlinks that stay inside", () => {
+    expect(resolveDirectory("link-in")).toBe(join(workspace, "link-in"))
+  })
+})
+
+describe("isInside", () => {
+  test("compares whole path segments", () => {
+    expect(isInside("/a/b", "/a/b")).toBe(true)
+    expect(isInside("/a/b", "/a/b/c")).toBe(true)
+    expect(isInside("/a/b", "/a/bc")).toBe(false)
+    expect(isInside("/a/b", "/a")).toBe(false)
+  })
+})
@@ -0,0 +1,92 @@
+// --- Projects: named subdirectories of the workspace root ---
+
+import { realpathSync } from "node:fs"
+import { mkdir, readdir, stat } from "node:fs/promises"
+import { basename, dirname, isAbsolute, join, relative, resolve } from "node:path"
+
+export interface ProjectInfo {
+  name: string
+  directory: string
+  modifiedAt: string
+}
+
+export const workspaceRoot = resolve(process.env.WORKSPACE_DIR ?? "/workspace")
+
+// Directories sessions may run in; the workspace root is always allowed
+const allowedRoots = [
+  workspaceRoot,
+  ...(process.env.ALLOWED_ROOTS ?? "")
+    .split(",")
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => resolve(root)),
+]
+
+const PROJECT_NAME = /^[A-Za-z0-9][\w.-]{0,63}$/
+
+export function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path)
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel))
+}
+
+/** Resolve symlinks through the deepest part of the path that exists. */
+export function realPath(path: string): string {
+  let existing = path
+  let rest = ""
+  for (;;) {
+    try {
+      return join(realpathSync(existing), rest)
+    } catch {
+      const parent = dirname(existing)
+      if (parent === existing) return path
+      rest = join(basename(existing), rest)
+      existing = parent
+    }
+  }
+}
+
+/**
+ * Resolve a client-supplied directory (absolute, or relative to the
+ * workspace root). Returns null if it escapes every allowed root, also
+ * through a symlink.
+ */
+export function resolveDirectory(input: string | undefined): string | null {
+  if (!input) return workspaceRoot
+  const path = resolve(workspaceRoot, input)
+  const real = realPath(path)
+  return allowedRoots.some((root) => isInside(root, path) && isInside(realPath(root), real)) ? path : null
+}
+
+export function isValidProjectName(name: string): boolean {
+  return PROJECT_NAME.test(name)
+}
+
+export async function listProjects(): Promise<ProjectInfo[]> {
+  const entries = await readdir(workspaceRoot, { withFileTypes: true }).catch(
+    () => [],
+  )
+  const projects: ProjectInfo[] = []
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".")) continue
+    const directory = join(workspaceRoot, entry.name)
+    const info = await stat(directory)
+    projects.push({
+      name: entry.name,
+      directory,
+      modifiedAt: info.mtime.toISOString(),
+    })
+  }
+  return projects.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Create the project directory. Returns null if it already exists. */
+export async function createProject(name: string): Promise<ProjectInfo | null> {
+  const directory = join(workspaceRoot, name)
+  const exists = await stat(directory).then(
+    () => true,
+    () => false,
+  )
+  if (exists) return null
+  await mkdir(directory, { recursive: true })
+  return { name, directory, modifiedAt: new Date().toISOString() }
+}
@@ -0,0 +1,445 @@
+// --- Running one prompt in a session (used by the job queue) ---
+
+import {
+  parseAttachments,
+  saveFiles,
+  withFileReferences,
+  type Attachment,
+  type ImageAttachment,
+} from "./attachments"
+import { createChangeTracker, toLink, type ArtifactLink } from "./artifacts"
+import { capPromptBudget, checkBudget, recordCost } from "./budget"
+import {
+  addUsage,
+  defaultMaxBudget,
+  NO_USAGE,
+  runClaude,
+  type ClaudeResult,
+  type TokenUsage,
+} from "./claude"
+import { publish } from "./events"
+import { ensureBranch, isGitRepo, takeSnapshot, type Snapshot } from "./git"
+import { createLogger } from "./log"
+import { counter, DURATION_BUCKETS, histogram } from "../../shared/metrics"
+import { createPermissionHandler } from "./permission"
+import {
+  addMessage,
+  clearActiveAbort,
+  getSession,
+  overlappingSessions,
+  setActiveAbort,
+  updateSession,
+  type MessageInfo,
+  type SessionInfo,
+} from "./session"
+
+export interface PromptRequest {
+  prompt: string
+  model?: string
+  system_prompt?: string
+  max_turns?: number
+  max_budget?: number
+  /** Who is charged; defaults to the session owner */
+  user?: string
+  attachments: Attachment[]
+  /** Summarise the conversation into a fresh Claude session instead of prompting */
+  compact?: boolean
+}
+
+export interface PromptResponse {
+  result: string
+  model: string
+  session_id: string
+  cost_usd: number
+  total_cost_usd: number
+  duration_ms: number
+  is_error: boolean
+  /** Stopped by an abort; `result` is the partial output */
+  cancelled: boolean
+  budget_warning: string | null
+  artifacts: ArtifactLink[]
+  /** Tool calls made during the prompt, inputs clipped for display */
+  tool_uses: ToolUseSummary[]
+  usage: TokenUsage
+  /** Conversation size now, out of the model's context window */
+  context_tokens: number
+  context_window: number | null
+  /** The conversation was summarised first (/compact, or AUTO_COMPACT_RATIO) */
+  compacted: boolean
+}
+
+export interface ToolUseSummary {
+  name: string
+  input: Record<string, unknown>
+}
+
+/** A failure that maps onto an HTTP status for synchronous callers. */
+export class PromptError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+  }
+}
+
+const defaultModel = process.env.CLAUDE_MODEL ?? "sonnet"
+const branchPerSession = process.env.GIT_BRANCH_PER_SESSION === "true"
+// Share of the context window past which a prompt compacts the conversation first; 0 = never
+const autoCompactRatio = Number(process.env.AUTO_COMPACT_RATIO ?? 0)
+
+const COMPACT_PROMPT =
+  "Summarise our conversation so far for a new session that will continue it. " +
+  "Keep the goal, decisions and their reasons, files created or changed, commands that matter, " +
+  "open problems and next steps. Reply with the summary only."
+
+/** Validate a request body. Returns an error message on failure. */
+export function parsePromptRequest(body: any): PromptRequest | string {
+  if (!body?.prompt || typeof body.prompt !== "string") {
+    return "Missing 'prompt' in request body"
+  }
+  const attachments = parseAttachments(body.attachments)
+  if (typeof attachments === "string") return attachments
+  return {
+    prompt: body.prompt,
+    model: body.model,
+    system_prompt: body.system_prompt,
+    max_turns: body.max_turns,
+    max_budget: body.max_budget,
+    user: body.user,
+    attachments,
+  }
+}
+
+const MAX_TOOL_INPUT = 200
+
+const log = createLogger("prompt")
+const promptsTotal = counter("claude_line_prompts_total", "Prompts run, by model and outcome")
+const promptDuration = histogram(
+  "claude_line_prompt_duration_seconds",
+  "Time the agent spent on a prompt",
+  DURATION_BUCKETS,
+)
+const costTotal = counter("claude_line_cost_usd_total", "Spend in USD, by model")
+const toolUsesTotal = counter("claude_line_tool_uses_total", "Tool calls made by the agent, by tool")
+const MAX_TITLE = 60
+
+/** Tool calls in order, with long inputs (file contents, patches) clipped. */
+function summarizeToolUses(messages: MessageInfo[]): ToolUseSummary[] {
+  const summaries: ToolUseSummary[] = []
+  for (const msg of messages) {
+    for (const part of msg.parts) {
+      if (part.type !== "tool_use" || !part.toolName) continue
+      const input: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries((part.toolInput ?? {}) as Record<string, unknown>)) {
+        if (typeof value === "string") {
+          input[key] = value.length > MAX_TOOL_INPUT ? value.slice(0, MAX_TOOL_INPUT) + "…" : value
+        } else if (typeof value !== "object" || value === null) {
+          input[key] = value
+        }
+      }
+      summaries.push({ name: part.toolName, input })
+    }
+  }
+  return summaries
+}
+
+/** Count a finished prompt in the metrics (sessions and POST /query alike). */
+export function observePrompt(model: string, result: ClaudeResult): void {
+  const outcome = result.cancelled ? "cancelled" : result.is_error ? "error" : "success"
+  promptsTotal.inc({ model, outcome })
+  promptDuration.observe({ model }, result.duration_ms / 1000)
+  costTotal.inc({ model }, result.cost_usd)
+  for (const message of result.messages) {
+    for (const part of message.parts) {
+      if (part.type === "tool_use" && part.toolName) toolUsesTotal.inc({ tool: part.toolName })
+    }
+  }
+}
+
+/** The client's system prompt plus what /compact kept of the conversation. */
+function withSummary(systemPrompt: string | undefined, summary: string | null): string | undefined {
+  if (!summary) return systemPrompt
+  return [systemPrompt, `Summary of this conversation so far (earlier messages were compacted):\n\n${summary}`]
+    .filter(Boolean)
+    .join("\n\n")
+}
+
+function nearlyFull(session: SessionInfo): boolean {
+  return (
+    autoCompactRatio > 0 &&
+    session.claudeSessionId !== null &&
+    session.contextWindow !== null &&
+    session.contextTokens >= session.contextWindow * autoCompactRatio
+  )
+}
+
+/**
+ * Have Claude summarise the conversation, then let go of its session: the
+ * next prompt starts a new one with the summary as system prompt. A failed
+ * or cancelled summary leaves the conversation as it was.
+ */
+async function compactConversation(
+  id: string,
+  request: PromptRequest,
+  user: string,
+  signal: AbortSignal,
+): Promise<{ result: ClaudeResult; compacted: boolean; budgetWarning: string | null }> {
+  const session = getSession(id)!
+  const result = await runClaude(COMPACT_PROMPT, {
+    model: request.model,
+    systemPrompt: withSummary(request.system_prompt, session.summary),
+    maxTurns: 1,
+    maxBudget: capPromptBudget(user, request.max_budget ?? defaultMaxBudget),
+    resumeSessionId: session.claudeSessionId ?? undefined,
+    workspaceDir: session.directory,
+    signal,
+    tools: [],
+  })
+  const compacted = !result.cancelled && !result.is_error
+  updateSession(id, {
+    totalCost: session.totalCost + result.cost_usd,
+    usage: addUsage(session.usage, result.usage),
+    ...(compacted ? { claudeSessionId: null, summary: result.result, contextTokens: 0 } : {}),
+  })
+  if (compacted) {
+    addMessage(id, {
+      id: crypto.randomUUID(),
+      role: "assistant",
+      parts: [{ id: crypto.randomUUID(), type: "text", text: `Conversation compacted. Summary:\n\n${result.result}` }],
+      createdAt: new Date().toISOString(),
+    })
+  }
+  observePrompt(request.model ?? defaultModel, result)
+  log.info("compaction finished", {
+    compacted,
+    contextTokens: session.contextTokens,
+    costUsd: result.cost_usd,
+  })
+  return { result, compacted, budgetWarning: recordCost(user, id, result.cost_usd) }
+}
+
+/** A /compact job: the summary run alone, reported like a prompt. */
+async function executeCompaction(id: string, request: PromptRequest, user: string): Promise<PromptResponse> {
+  const session = getSession(id)!
+  const model = request.model ?? defaultModel
+  const contextBefore = session.contextTokens
+  const response: PromptResponse = {
+    result: "Nothing to compact yet.",
+    model,
+    session_id: "",
+    cost_usd: 0,
+    total_cost_usd: session.totalCost,
+    duration_ms: 0,
+    is_error: false,
+    cancelled: false,
+    budget_warning: null,
+    artifacts: [],
+    tool_uses: [],
+    usage: NO_USAGE,
+    context_tokens: session.contextTokens,
+    context_window: session.contextWindow,
+    compacted: false,
+  }
+  if (!session.claudeSessionId) return response
+
+  const abortController = new AbortController()
+  updateSession(id, { status: "running" })
+  setActiveAbort(id, abortController)
+  publish({ type: "session.updated", properties: { session: getSession(id)! } })
+
+  const { result, compacted, budgetWarning } = await compactConversation(id, request, user, abortController.signal)
+
+  updateSession(id, { status: result.cancelled ? "cancelled" : "idle" })
+  clearActiveAbort(id)
+  publish({ type: "session.updated", properties: { session: getSession(id)! } })
+
+  return {
+    ...response,
+    result: compacted
+      ? `🗜 Compacted ${contextBefore.toLocaleString("en-US")} tokens of conversation. The next prompt starts a new session with this summary:\n\n${result.result}`
+      : result.result,
+    session_id: result.session_id,
+    cost_usd: result.cost_usd,
+    total_cost_usd: session.totalCost,
+    duration_ms: result.duration_ms,
+    is_error: result.is_error,
+    cancelled: result.cancelled,
+    budget_warning: budgetWarning,
+    usage: result.usage,
+    context_tokens: session.contextTokens,
+    compacted,
+  }
+}
+
+/** Shared sessions bill whoever sent the prompt, not the session owner. */
+export function billedUser(sessionId: string, request: PromptRequest): string {
+  return request.user || getSession(sessionId)?.owner || "anonymous"
+}
+
+export async function executePrompt(
+  id: string,
+  request: PromptRequest,
+): Promise<PromptResponse> {
+  const session = getSession(id)
+  if (!session) throw new PromptError("Session not found", 404)
+  if (session.archivedAt) throw new PromptError("Session is archived", 410)
+
+  const { prompt, model, system_prompt, max_turns, max_budget, attachments } = request
+  const user = billedUser(id, request)
+
+  const budget = checkBudget(user)
+  if (!budget.allowed) throw new PromptError(budget.reason, 402)
+
+  if (request.compact) return executeCompaction(id, request, user)
+  // Uploads are written into the workspace, which a read-only session must leave alone
+  if (session.readOnly && attachments.some((a) => a.type === "file")) {
+    throw new PromptError("Read-only sessions can't take file attachments; images are fine", 403)
+  }
+
+  const abortController = new AbortController()
+
+  updateSession(id, { status: "running" })
+  setActiveAbort(id, abortController)
+  publish({ type: "session.updated", properties: { session: getSession(id)! } })
+
+  // Switching branches would change the tree under another session mid-run
+  if (
+    branchPerSession &&
+    !session.readOnly &&
+    overlappingSessions(session).some((other) => other.status === "running") &&
+    (await isGitRepo(session.directory))
+  ) {
+    updateSession(id, { status: "idle" })
+    clearActiveAbort(id)
+    publish({ type: "session.updated", properties: { session: getSession(id)! } })
+    throw new PromptError("Another session is running in this repository; with a branch per session they take turns", 409)
+  }
+  if (!session.readOnly) updateSession(id, { lastWriteAt: new Date().toISOString() })
+
+  log.info("prompt started", { chars: prompt.length, attachments: attachments.length })
+
+  // Nearly full: summarise first so the prompt starts from a small context.
+  // That run is part of the prompt: its cost and usage are reported with it
+  const compaction = nearlyFull(session)
+    ? await compactConversation(id, request, user, abortController.signal)
+    : null
+  const compactionCost = compaction?.result.cost_usd ?? 0
+
+  let savedFiles: string[]
+  try {
+    savedFiles = await saveFiles(session.directory, attachments)
+  } catch (err: any) {
+    updateSession(id, { status: "idle" })
+    clearActiveAbort(id)
+    publish({ type: "session.updated", properties: { session: getSession(id)! } })
+    throw new PromptError(`Failed to save attachments: ${err?.message}`, 500)
+  }
+  const images = attachments.filter(
+    (a): a is ImageAttachment => a.type === "image",
+  )
+  const fullPrompt = withFileReferences(prompt, savedFiles)
+
+  // Record the prompt itself; the SDK only reports what the agent does
+  addMessage(id, {
+    id: crypto.randomUUID(),
+    role: "user",
+    parts: [
+      {
+        id: crypto.randomUUID(),
+        type: "text",
+        text: images.length > 0 ? `${fullPrompt}\n\n(${images.length} image(s) attached)` : fullPrompt,
+      },
+    ],
+    createdAt: new Date().toISOString(),
+  })
+  if (!session.title) {
+    updateSession(id, { title: prompt.split("\n")[0].slice(0, MAX_TITLE) })
+  }
+  const changes = createChangeTracker(session.directory)
+
+  // Git: optional per-session branch, then snapshot the tree for /undo
+  let snapshot: Snapshot | null = null
+  if (!session.readOnly && (await isGitRepo(session.directory))) {
+    if (branchPerSession) {
+      const branch = session.branch ?? `line/${id}`
+      try {
+        await ensureBranch(session.directory, branch)
+        if (!session.branch) updateSession(id, { branch })
+      } catch (err: any) {
+        log.warn("session branch skipped", { err })
+      }
+    }
+    try {
+      snapshot = await takeSnapshot(session.directory, id)
+    } catch (err: any) {
+      log.warn("git snapshot failed", { err })
+    }
+  }
+
+  const result = await runClaude(fullPrompt, {
+    model,
+    systemPrompt: withSummary(system_prompt, session.summary),
+    maxTurns: max_turns,
+    maxBudget: capPromptBudget(user, Math.max((max_budget ?? defaultMaxBudget) - compactionCost, 0)),
+    resumeSessionId: session.claudeSessionId ?? undefined,
+    workspaceDir: session.directory,
+    signal: abortController.signal,
+    permissionMode: session.permissionMode,
+    canUseTool: createPermissionHandler(id, abortController.signal),
+    readOnly: session.readOnly,
+    images,
+    beforeTool: changes.beforeTool,
+    sessionId: id,
+  })
+  const artifacts = await changes.finish(id)
+
+  // Update session state; a cancelled prompt still keeps its output and cost
+  const totalCost = session.totalCost + result.cost_usd
+  updateSession(id, {
+    status: result.cancelled ? "cancelled" : "idle",
+    claudeSessionId: result.session_id || session.claudeSessionId,
+    totalCost,
+    usage: addUsage(session.usage, result.usage),
+    contextTokens: result.context_tokens || session.contextTokens,
+    contextWindow: result.context_window ?? session.contextWindow,
+    snapshot,
+    lastWriteAt: session.readOnly ? session.lastWriteAt : new Date().toISOString(),
+  })
+  for (const msg of result.messages) {
+    addMessage(id, msg)
+  }
+  clearActiveAbort(id)
+  publish({ type: "session.updated", properties: { session: getSession(id)! } })
+  // The compaction was already recorded and added to totalCost
+  const budgetWarning = recordCost(user, id, result.cost_usd) ?? compaction?.budgetWarning ?? null
+
+  const toolUses = summarizeToolUses(result.messages)
+  const modelLabel = model ?? defaultModel
+  observePrompt(modelLabel, result)
+  log.info("prompt finished", {
+    durationMs: result.duration_ms,
+    costUsd: result.cost_usd,
+    tools: toolUses.length,
+    isError: result.is_error,
+    cancelled: result.cancelled,
+  })
+
+  return {
+    result: result.result,
+    model: modelLabel,
+    session_id: result.session_id,
+    cost_usd: result.cost_usd + compactionCost,
+    total_cost_usd: totalCost,
+    duration_ms: result.duration_ms,
+    is_error: result.is_error,
+    cancelled: result.cancelled,
+    budget_warning: budgetWarning,
+    artifacts: artifacts.map(toLink),
+    tool_uses: toolUses,
+    usage: compaction ? addUsage(compaction.result.usage, result.usage) : result.usage,
+    context_tokens: session.contextTokens,
+    context_window: session.contextWindow,
+    compacted: compaction?.compacted ?? false,
+  }
+}
@@ -0,0 +1,197 @@
+// --- Sandbox: per-project limits on the agent's tools, files, environment and network ---
+
+import type { Options } from "@anthropic-ai/claude-agent-sdk"
+import { readFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join, relative, resolve } from "node:path"
+import { createLogger } from "./log"
+import { isInside, realPath, workspaceRoot } from "./project"
+
+export interface SandboxPolicy {
+  /** Only these tools are offered to the agent (default: all) */
+  tools?: string[]
+  /** Withheld on top of what read-only sessions lose */
+  disallowed_tools?: string[]
+  /** Run Bash under the OS sandbox (bubblewrap), the default. false withholds Bash entirely */
+  bash_sandbox?: boolean
+  /** Bash network access: true, false, or the domains it may reach (enforced by the sandbox) */
+  network?: boolean | string[]
+  /** Extra variables for the agent; "$NAME" copies one from the server's environment */
+  env?: Record<string, string>
+  /** Extra paths the agent may not read or write */
+  deny_paths?: string[]
+}
+
+export interface AgentSandbox {
+  /** Spread into the SDK's query options */
+  options: Pick<Options, "tools" | "disallowedTools" | "env" | "sandbox">
+  /** Why a tool call must not run, or null to let it */
+  check(toolName: string, input: any): string | null
+}
+
+const sandboxFile = process.env.SANDBOX_FILE
+
+// What the Claude Code process needs to run; everything else (API_PASSWORD,
+// LINE tokens, hook secrets, ...) is kept out of the agent's environment.
+// The CLI needs ANTHROPIC_* itself; Bash never sees them, since it either
+// runs sandboxed with CLAUDE_CODE_SUBPROCESS_ENV_SCRUB or not at all.
+const ENV_KEEP =
+  /^(PATH|HOME|USER|LOGNAME|SHELL|LANG|LC_\w+|TZ|TERM|TMPDIR|NODE_\w+|ANTHROPIC_\w+|CLAUDE_\w+|(HTTPS?|NO)_PROXY|(https?|no)_proxy)$/
+const envKeep = new Set(
+  (process.env.SANDBOX_ENV_KEEP ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean),
+)
+
+const WRITE_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"])
+const READ_TOOLS = new Set(["Read", "Glob", "Grep", "LS"])
+
+const log = createLogger("sandbox")
+
+function parseNetwork(value: string | undefined): boolean | string[] {
+  if (!value || value === "true") return true
+  if (value === "false") return false
+  return value
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter(Boolean)
+}
+
+// Server-wide defaults; SANDBOX_FILE refines them per project
+const envPolicy: SandboxPolicy = {
+  bash_sandbox: process.env.SANDBOX_BASH !== "false",
+  network: parseNetwork(process.env.SANDBOX_NETWORK),
+  disallowed_tools: (process.env.SANDBOX_DISALLOWED_TOOLS ?? "")
+    .split(",")
+    .map((tool) => tool.trim())
+    .filter(Boolean),
+}
+
+/** Project name → policy; "*" applies to every project and the workspace root. */
+function loadPolicies(): Record<string, SandboxPolicy> {
+  if (!sandboxFile) return {}
+  try {
+    const policies = JSON.parse(readFileSync(sandboxFile, "utf8")) as Record<string, SandboxPolicy>
+    log.info("sandbox policies loaded", { file: sandboxFile, projects: Object.keys(policies) })
+    return policies
+  } catch (err: any) {
+    log.error("failed to load sandbox policies", { file: sandboxFile, err })
+    return {}
+  }
+}
+
+const policies = loadPolicies()
+
+/** The workspace project a directory belongs to, or null for the root and other roots. */
+function projectOf(directory: string): string | null {
+  const rel = relative(workspaceRoot, directory)
+  if (rel === "" || !isInside(workspaceRoot, directory)) return null
+  return rel.split(/[\\/]/)[0]
+}
+
+export function policyFor(directory: string): SandboxPolicy {
+  const project = projectOf(directory)
+  return {
+    ...envPolicy,
+    ...policies["*"],
+    ...(project ? policies[project] : undefined),
+  }
+}
+
+/** The server's environment minus secrets, plus the policy's own variables. */
+function agentEnv(policy: SandboxPolicy): Record<string, string | undefined> {
+  const env: Record<string, string | undefined> = {}
+  for (const [name, value] of Object.entries(process.env)) {
+    if (ENV_KEEP.test(name) || envKeep.has(name)) env[name] = value
+  }
+  for (const [name, value] of Object.entries(policy.env ?? {})) {
+    env[name] = value.startsWith("$") ? process.env[value.slice(1)] : value
+  }
+  // Claude Code strips its credentials from Bash; forced, as the server's env could turn it off.
+  // It needs bubblewrap, which a sandboxed Bash needs anyway
+  if (policy.bash_sandbox) env.CLAUDE_CODE_SUBPROCESS_ENV_SCRUB = "1"
+  return env
+}
+
+/** Paths no session may touch: agent credentials, server data, our own config. */
+function protectedPaths(policy: SandboxPolicy): string[] {
+  return [
+    process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), ".claude"),
+    process.env.DB_PATH ? dirname(resolve(process.env.DB_PATH)) : null,
+    sandboxFile,
+    process.env.HOOKS_FILE,
+    ...(policy.deny_paths ?? []),
+  ]
+    .filter((path): path is string => Boolean(path))
+    .map((path) => realPath(resolve(path)))
+}
+
+/** The file or directory a tool call targets, if it has one. */
+function toolPath(toolName: string, input: any): string | undefined {
+  if (toolName === "NotebookEdit") return input?.notebook_path
+  if (toolName === "Glob" || toolName === "Grep" || toolName === "LS") return input?.path
+  return input?.file_path
+}
+
+/**
+ * The sandbox for an agent running in `directory`. File tools are checked
+ * here (writes stay in the directory; a project session cannot read other
+ * projects); Bash runs under bubblewrap with the same limits, or not at all.
+ */
+export function createSandbox(directory: string): AgentSandbox {
+  const policy = policyFor(directory)
+  const root = realPath(resolve(directory))
+  const workspace = realPath(workspaceRoot)
+  const denied = protectedPaths(policy)
+  // Sessions in a project see that project only; the root session sees all
+  const otherProjects = root !== workspace && isInside(workspace, root)
+
+  const sandbox: Options["sandbox"] = policy.bash_sandbox
+    ? {
+        enabled: true,
+        failIfUnavailable: true,
+        autoAllowBashIfSandboxed: true,
+        allowUnsandboxedCommands: false,
+        network: policy.network === true ? undefined : { allowedDomains: policy.network || [] },
+        filesystem: {
+          allowWrite: [root],
+          denyWrite: denied,
+          denyRead: otherProjects ? [...denied, workspace] : denied,
+          allowRead: otherProjects ? [root] : undefined,
+        },
+      }
+    : undefined
+
+  return {
+    options: {
+      tools: policy.tools,
+      // Unconfined, Bash could read anything the server's user can
+      disallowedTools: policy.bash_sandbox
+        ? policy.disallowed_tools
+        : [...(policy.disallowed_tools ?? []), "Bash"],
+      env: agentEnv(policy),
+      sandbox,
+    },
+
+    check(toolName, input) {
+      if (toolName === "Bash" && !policy.bash_sandbox) {
+        return "Bash is off: this project's policy has no sandbox for it"
+      }
+      if (!WRITE_TOOLS.has(toolName) && !READ_TOOLS.has(toolName)) return null
+      const target = toolPath(toolName, input)
+      if (!target) return null
+      const path = realPath(resolve(root, target))
+      if (denied.some((deny) => isInside(deny, path))) {
+        return `${target} is off limits to the agent`
+      }
+      if (WRITE_TOOLS.has(toolName) && !isInside(root, path)) {
+        return `Writes are limited to the session directory (${root})`
+      }
+      if (otherProjects && isInside(workspace, path) && !isInside(root, path)) {
+        return `${target} belongs to another project`
+      }
+      return null
+    },
+  }
+}
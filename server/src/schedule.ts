@@ -0,0 +1,197 @@
+// --- Recurring prompts: cron schedules that queue jobs in their own session ---
+
+import { checkBudget } from "./budget"
+import { nextRun, parseCron } from "./cron"
+import { publish } from "./events"
+import { enqueueJob, getJob } from "./jobs"
+import { createLogger, hashUser, withLogContext } from "./log"
+import type { PromptRequest } from "./prompt"
+import { createSession, getSession } from "./session"
+import { createStore } from "./store"
+
+export interface Schedule {
+  id: string
+  /** Normalized five-field expression */
+  cron: string
+  /** Prompt and options, as for POST /session/:id/job; `user` is the owner */
+  request: PromptRequest
+  owner: string
+  /** Where the client delivers results (e.g. a LINE conversation id) */
+  target: string | null
+  directory: string
+  readOnly: boolean
+  /** Session the runs share; replaced if it is deleted or archived */
+  sessionId: string
+  createdAt: string
+  nextRunAt: string | null
+  lastRunAt: string | null
+  lastJobId: string | null
+  /** Why the last due run did not happen (budget, previous run busy) */
+  lastSkipReason: string | null
+}
+
+export interface CreateScheduleInput {
+  cron: string
+  request: PromptRequest
+  owner: string
+  target: string | null
+  directory: string
+  readOnly: boolean
+}
+
+const schedules = createStore<Schedule>("schedules")
+const maxPerOwner = Number(process.env.SCHEDULE_MAX_PER_OWNER ?? 10)
+const minIntervalMinutes = Number(process.env.SCHEDULE_MIN_INTERVAL_MINUTES ?? 15)
+const TICK_MS = 30_000
+
+const log = createLogger("schedule")
+let scheduleCounter = 0
+
+/** Shortest gap between the next few runs, to refuse overly frequent schedules. */
+function shortestGapMinutes(expression: string): number {
+  const cron = parseCron(expression)
+  if (typeof cron === "string") return 0
+  let shortest = Infinity
+  let previous = nextRun(cron, new Date())
+  for (let i = 0; i < 50 && previous; i++) {
+    const next = nextRun(cron, previous)
+    if (!next) break
+    shortest = Math.min(shortest, (next.getTime() - previous.getTime()) / 60_000)
+    previous = next
+  }
+  return shortest
+}
+
+function sessionFor(schedule: Schedule): string {
+  const session = getSession(schedule.sessionId)
+  if (session && !session.archivedAt) return session.id
+  const created = createSession(schedule.directory, {
+    owner: schedule.owner,
+    readOnly: schedule.readOnly,
+  })
+  publish({ type: "session.created", properties: { session: created } })
+  return created.id
+}
+
+/** Validate and store a schedule. Returns an error message on failure. */
+export function createSchedule(input: CreateScheduleInput): Schedule | string {
+  const cron = parseCron(input.cron)
+  if (typeof cron === "string") return cron
+  const next = nextRun(cron, new Date())
+  if (!next) return "That schedule never runs."
+  if (shortestGapMinutes(cron.expression) < minIntervalMinutes) {
+    return `Schedules may run at most every ${minIntervalMinutes} minutes.`
+  }
+  if (listSchedules(input.owner).length >= maxPerOwner) {
+    return `You already have ${maxPerOwner} schedules; remove one first.`
+  }
+
+  const session = createSession(input.directory, {
+    owner: input.owner,
+    readOnly: input.readOnly,
+  })
+  publish({ type: "session.created", properties: { session } })
+  const schedule: Schedule = {
+    id: `sch-${Date.now()}-${++scheduleCounter}`,
+    cron: cron.expression,
+    request: { ...input.request, user: input.owner, attachments: [] },
+    owner: input.owner,
+    target: input.target,
+    directory: session.directory,
+    readOnly: input.readOnly,
+    sessionId: session.id,
+    createdAt: new Date().toISOString(),
+    nextRunAt: next.toISOString(),
+    lastRunAt: null,
+    lastJobId: null,
+    lastSkipReason: null,
+  }
+  schedules.set(schedule.id, schedule)
+  log.info("schedule created", { scheduleId: schedule.id, cron: schedule.cron, sessionId: session.id })
+  return schedule
+}
+
+export function getSchedule(id: string): Schedule | undefined {
+  return schedules.get(id)
+}
+
+/** Oldest first, so list numbers stay stable as schedules are added. */
+export function listSchedules(owner?: string): Schedule[] {
+  return schedules
+    .values()
+    .filter((schedule) => !owner || schedule.owner === owner)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export function deleteSchedule(id: string): boolean {
+  return schedules.delete(id)
+}
+
+function skip(schedule: Schedule, reason: string): void {
+  schedule.lastSkipReason = reason
+  log.warn("scheduled run skipped", { scheduleId: schedule.id, reason })
+  publish({
+    type: "schedule.skipped",
+    properties: { sessionId: schedule.sessionId, scheduleId: schedule.id, target: schedule.target, reason },
+  })
+}
+
+function fire(schedule: Schedule): void {
+  const previous = schedule.lastJobId ? getJob(schedule.lastJobId) : undefined
+  if (previous && (previous.status === "queued" || previous.status === "running")) {
+    return skip(schedule, "The previous run is still in progress.")
+  }
+  const budget = checkBudget(schedule.owner)
+  if (!budget.allowed) return skip(schedule, budget.reason)
+
+  schedule.sessionId = sessionFor(schedule)
+  const job = enqueueJob(schedule.sessionId, schedule.request)
+  schedule.lastRunAt = new Date().toISOString()
+  schedule.lastJobId = job.id
+  schedule.lastSkipReason = null
+  publish({
+    type: "schedule.fired",
+    properties: {
+      sessionId: schedule.sessionId,
+      scheduleId: schedule.id,
+      target: schedule.target,
+      jobId: job.id,
+      prompt: schedule.request.prompt,
+    },
+  })
+}
+
+function tick(): void {
+  const now = new Date()
+  for (const schedule of listSchedules()) {
+    if (!schedule.nextRunAt || new Date(schedule.nextRunAt) > now) continue
+    const fields = { requestId: `${schedule.id}@${schedule.nextRunAt}`, user: hashUser(schedule.owner) }
+    withLogContext(fields, () => {
+      try {
+        fire(schedule)
+      } catch (err: any) {
+        log.error("scheduled run failed", { scheduleId: schedule.id, err })
+      }
+      const cron = parseCron(schedule.cron)
+      schedule.nextRunAt = typeof cron === "string" ? null : (nextRun(cron, now)?.toISOString() ?? null)
+      schedules.set(schedule.id, schedule)
+    })
+  }
+}
+
+/**
+ * Start firing due schedules. Runs missed while the server was down are
+ * skipped rather than replayed, so a long outage can't burst the budget.
+ */
+export function startScheduler(): void {
+  const now = new Date()
+  for (const schedule of listSchedules()) {
+    if (schedule.nextRunAt && new Date(schedule.nextRunAt) < now) {
+      const cron = parseCron(schedule.cron)
+      schedule.nextRunAt = typeof cron === "string" ? null : (nextRun(cron, now)?.toISOString() ?? null)
+      schedules.set(schedule.id, schedule)
+      log.info("missed run skipped", { scheduleId: schedule.id })
+    }
+  }
+  setInterval(tick, TICK_MS)
+}
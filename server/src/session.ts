@@ -1,5 +1,10 @@
 // --- Session Manager ---
 
+import { NO_USAGE, type TokenUsage } from "./claude"
+import type { Snapshot } from "./git"
+import { isInside } from "./project"
+import { createStore } from "./store"
+
 export interface MessagePart {
   id: string
   type: "text" | "tool_use" | "tool_result"
@@ -17,36 +22,119 @@ export interface MessageInfo {
   createdAt: string
 }
 
+/** "bypass" runs every tool unattended; "approve" asks a client first. */
+export type PermissionMode = "bypass" | "approve"
+
 export interface SessionInfo {
   id: string
   claudeSessionId: string | null
   directory: string
+  /** Who the session belongs to (e.g. a LINE userId); used for budgets */
+  owner: string | null
+  permissionMode: PermissionMode
+  /** Tools the user chose to always allow in this session */
+  allowedTools: string[]
+  /** Agent may read and search but not edit files or run commands */
+  readOnly: boolean
+  /** Git branch the session works on (GIT_BRANCH_PER_SESSION) */
+  branch: string | null
+  /** Working tree before the last prompt, for /undo */
+  snapshot: Snapshot | null
+  /** Last time a prompt that could change files started or finished */
+  lastWriteAt: string | null
+  /** Start of the first prompt, for history listings */
+  title: string | null
+  /** Set when a client closes the session; archived sessions can be restored */
+  archivedAt: string | null
   totalCost: number
-  status: "idle" | "running"
+  /** Tokens used by every prompt so far, compactions included */
+  usage: TokenUsage
+  /** Conversation size after the last prompt (0 right after /compact) */
+  contextTokens: number
+  /** The model's context window as last reported; null until the first prompt */
+  contextWindow: number | null
+  /** What /compact kept of the conversation; sent as a system prompt from then on */
+  summary: string | null
+  /** "cancelled" until the next prompt, after the last one was aborted */
+  status: "idle" | "running" | "cancelled"
   messages: MessageInfo[]
   createdAt: string
   updatedAt: string
 }
 
+// In-memory cache, written through to the persistent store on every change
+const store = createStore<SessionInfo>("sessions")
 const sessions = new Map<string, SessionInfo>()
 const activeAborts = new Map<string, AbortController>()
 
 let counter = 0
 
-export function createSession(directory?: string): SessionInfo {
+export const defaultPermissionMode: PermissionMode =
+  process.env.PERMISSION_MODE === "approve" ? "approve" : "bypass"
+
+// A restart kills any in-flight prompt, so nothing can still be running
+for (const session of store.values()) {
+  session.permissionMode ??= defaultPermissionMode
+  session.allowedTools ??= []
+  session.readOnly ??= false
+  session.owner ??= null
+  session.branch ??= null
+  session.snapshot ??= null
+  session.lastWriteAt ??= null
+  session.title ??= null
+  session.archivedAt ??= null
+  session.usage ??= NO_USAGE
+  session.contextTokens ??= 0
+  session.contextWindow ??= null
+  session.summary ??= null
+  if (session.status === "running") {
+    session.status = "idle"
+    store.set(session.id, session)
+  }
+  sessions.set(session.id, session)
+}
+
+function persist(session: SessionInfo): void {
+  store.set(session.id, session)
+}
+
+export interface CreateSessionOptions {
+  owner?: string
+  permissionMode?: PermissionMode
+  readOnly?: boolean
+}
+
+export function createSession(
+  directory?: string,
+  options: CreateSessionOptions = {},
+): SessionInfo {
   const id = `s-${Date.now()}-${++counter}`
   const now = new Date().toISOString()
   const session: SessionInfo = {
     id,
     claudeSessionId: null,
     directory: directory ?? process.env.WORKSPACE_DIR ?? "/workspace",
+    owner: options.owner ?? null,
+    permissionMode: options.permissionMode ?? defaultPermissionMode,
+    allowedTools: [],
+    readOnly: options.readOnly ?? false,
+    branch: null,
+    snapshot: null,
+    lastWriteAt: null,
+    title: null,
+    archivedAt: null,
     totalCost: 0,
+    usage: NO_USAGE,
+    contextTokens: 0,
+    contextWindow: null,
+    summary: null,
     status: "idle",
     messages: [],
     createdAt: now,
     updatedAt: now,
   }
   sessions.set(id, session)
+  persist(session)
   return session
 }
 
@@ -58,11 +146,38 @@ export function listSessions(): SessionInfo[] {
   return Array.from(sessions.values())
 }
 
+/** Other writable sessions whose directory holds, or lies within, this one's. */
+export function overlappingSessions(session: SessionInfo): SessionInfo[] {
+  return Array.from(sessions.values()).filter(
+    (other) =>
+      other.id !== session.id &&
+      !other.readOnly &&
+      (isInside(session.directory, other.directory) || isInside(other.directory, session.directory)),
+  )
+}
+
 export function deleteSession(id: string): boolean {
   const session = sessions.get(id)
   if (!session) return false
   abortSession(id)
   sessions.delete(id)
+  store.delete(id)
+  return true
+}
+
+/** Soft delete: stop any prompt and hide the session from active use. */
+export function archiveSession(id: string): boolean {
+  const session = sessions.get(id)
+  if (!session) return false
+  abortSession(id)
+  updateSession(id, { archivedAt: new Date().toISOString() })
+  return true
+}
+
+export function restoreSession(id: string): boolean {
+  const session = sessions.get(id)
+  if (!session) return false
+  updateSession(id, { archivedAt: null })
   return true
 }
 
@@ -71,6 +186,7 @@ export function updateSession(id: string, update: Partial<SessionInfo>): void {
   if (session) {
     Object.assign(session, update)
     session.updatedAt = new Date().toISOString()
+    persist(session)
   }
 }
 
@@ -79,6 +195,7 @@ export function addMessage(id: string, message: MessageInfo): void {
   if (session) {
     session.messages.push(message)
     session.updatedAt = new Date().toISOString()
+    persist(session)
   }
 }
 
@@ -90,14 +207,13 @@ export function clearActiveAbort(id: string): void {
   activeAborts.delete(id)
 }
 
+/**
+ * Ask the running prompt to stop. It winds down on its own and records its
+ * partial output, cost and final status, so no state is changed here.
+ */
 export function abortSession(id: string): boolean {
   const controller = activeAborts.get(id)
-  if (controller) {
-    controller.abort()
-    activeAborts.delete(id)
-    const session = sessions.get(id)
-    if (session) session.status = "idle"
-    return true
-  }
-  return false
+  if (!controller || controller.signal.aborted) return false
+  controller.abort()
+  return true
 }
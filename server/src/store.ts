@@ -0,0 +1,71 @@
+// --- Pluggable key-value persistence (in-memory or SQLite) ---
+
+import { Database } from "bun:sqlite"
+
+export interface Store<T> {
+  get(key: string): T | undefined
+  set(key: string, value: T): void
+  delete(key: string): boolean
+  values(): T[]
+}
+
+const dbPath = process.env.DB_PATH
+let db: Database | null = null
+
+function memoryStore<T>(): Store<T> {
+  const map = new Map<string, T>()
+  return {
+    get: (key) => map.get(key),
+    set: (key, value) => {
+      map.set(key, value)
+    },
+    delete: (key) => map.delete(key),
+    values: () => Array.from(map.values()),
+  }
+}
+
+function sqliteStore<T>(database: Database, table: string): Store<T> {
+  database.run(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`,
+  )
+  const getStmt = database.query<{ value: string }, [string]>(
+    `SELECT value FROM ${table} WHERE key = ?`,
+  )
+  const setStmt = database.query(
+    `INSERT INTO ${table} (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+  )
+  const deleteStmt = database.query(`DELETE FROM ${table} WHERE key = ?`)
+  const allStmt = database.query<{ value: string }, []>(
+    `SELECT value FROM ${table} ORDER BY rowid`,
+  )
+
+  return {
+    get: (key) => {
+      const row = getStmt.get(key)
+      return row ? (JSON.parse(row.value) as T) : undefined
+    },
+    set: (key, value) => {
+      setStmt.run(key, JSON.stringify(value))
+    },
+    delete: (key) => deleteStmt.run(key).changes > 0,
+    values: () => allStmt.all().map((row) => JSON.parse(row.value) as T),
+  }
+}
+
+/**
+ * Create a named store. Uses SQLite when DB_PATH is set, so data survives
+ * restarts; otherwise everything lives in memory for the process lifetime.
+ */
+export function createStore<T>(name: string): Store<T> {
+  if (!dbPath) return memoryStore<T>()
+  if (!db) {
+    db = new Database(dbPath, { create: true })
+    db.run("PRAGMA journal_mode = WAL")
+  }
+  return sqliteStore<T>(db, name)
+}
+
+export function storeBackend(): string {
+  return dbPath ? `sqlite (${dbPath})` : "memory"
+}
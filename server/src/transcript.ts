@@ -0,0 +1,51 @@
+// --- Markdown transcript of a session, for /export ---
+
+import type { MessagePart, SessionInfo } from "./session"
+
+const MAX_TOOL_TEXT = 2000
+
+/** A backtick fence longer than any run of backticks inside `text`. */
+function fenced(text: string, lang = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = "`".repeat(longest + 1)
+  return `${fence}${lang}\n${text}\n${fence}`
+}
+
+function clip(text: string): string {
+  return text.length > MAX_TOOL_TEXT ? `${text.slice(0, MAX_TOOL_TEXT)}\n… (truncated)` : text
+}
+
+function renderToolUse(part: MessagePart): string {
+  const lines = [`**🔧 ${part.toolName}**${part.status === "error" ? " (failed)" : ""}`, ""]
+  lines.push(fenced(clip(JSON.stringify(part.toolInput ?? {}, null, 2)), "json"))
+  if (part.toolResult) {
+    lines.push("", "<details><summary>Result</summary>", "", fenced(clip(part.toolResult)), "", "</details>")
+  }
+  return lines.join("\n")
+}
+
+export function renderTranscript(session: SessionInfo): string {
+  const out = [
+    `# ${session.title ?? session.id}`,
+    "",
+    `- Session: \`${session.id}\``,
+    `- Directory: \`${session.directory}\``,
+    `- Created: ${session.createdAt}`,
+    `- Cost: $${session.totalCost.toFixed(4)}`,
+  ]
+
+  let lastRole: string | null = null
+  for (const message of session.messages) {
+    // The SDK reports each assistant step separately; show one heading per turn
+    if (message.role !== lastRole) {
+      const who = message.role === "user" ? "👤 User" : "🤖 Assistant"
+      out.push("", "---", "", `## ${who} · ${message.createdAt.replace("T", " ").slice(0, 16)}`)
+      lastRole = message.role
+    }
+    for (const part of message.parts) {
+      if (part.type === "text" && part.text) out.push("", part.text)
+      else if (part.type === "tool_use") out.push("", renderToolUse(part))
+    }
+  }
+  return out.join("\n") + "\n"
+}
@@ -0,0 +1,70 @@
+// --- Structured JSON logs for the bot and the server, correlated by request id ---
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { createHash } from "node:crypto"
+
+export interface LogContext {
+  requestId?: string
+  sessionId?: string
+  jobId?: string
+  /** Hashed user id, see hashUser() */
+  user?: string
+}
+
+type Level = "debug" | "info" | "warn" | "error"
+
+const LEVELS: Level[] = ["debug", "info", "warn", "error"]
+const minLevel = Math.max(0, LEVELS.indexOf((process.env.LOG_LEVEL ?? "info") as Level))
+// Both services read LOG_HASH_SALT, so with the same value a user hashes the same in both
+const salt = process.env.LOG_HASH_SALT ?? ""
+let service = "unknown"
+
+const context = new AsyncLocalStorage<LogContext>()
+
+/** The `service` field of every line; each package's log.ts sets it. */
+export function setLogService(name: string): void {
+  service = name
+}
+
+/** Stable pseudonym for a user id, so logs never carry the id itself. */
+export function hashUser(userId: string): string {
+  return createHash("sha256").update(salt + userId).digest("hex").slice(0, 12)
+}
+
+export function getLogContext(): LogContext {
+  return context.getStore() ?? {}
+}
+
+/** Run `fn` with fields added to every line logged inside it, async work included. */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return context.run({ ...getLogContext(), ...fields }, fn)
+}
+
+function write(level: Level, component: string, msg: string, fields: Record<string, unknown>) {
+  if (LEVELS.indexOf(level) < minLevel) return
+  const { err, ...rest } = fields
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    service,
+    component,
+    msg,
+    ...getLogContext(),
+    ...rest,
+    ...(err !== undefined ? { error: (err as any)?.message ?? String(err) } : {}),
+  })
+  if (level === "error" || level === "warn") console.error(line)
+  else console.log(line)
+}
+
+export type Logger = Record<Level, (msg: string, fields?: Record<string, unknown>) => void>
+
+/** Logger for one area of the code, e.g. createLogger("jobs"). Pass errors as `err`. */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (msg, fields = {}) => write("debug", component, msg, fields),
+    info: (msg, fields = {}) => write("info", component, msg, fields),
+    warn: (msg, fields = {}) => write("warn", component, msg, fields),
+    error: (msg, fields = {}) => write("error", component, msg, fields),
+  }
+}
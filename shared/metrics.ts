@@ -0,0 +1,111 @@
+// --- Prometheus metrics in the text exposition format ---
+
+type Labels = Record<string, string>
+
+interface Metric {
+  name: string
+  help: string
+  type: "counter" | "gauge" | "histogram"
+  render(): string[]
+}
+
+const registry: Metric[] = []
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ""
+  const escape = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(",")}}`
+}
+
+interface Counter {
+  inc(labels?: Labels, value?: number): void
+}
+
+const counters = new Map<string, Counter>()
+
+/** Modules asking for the same name share one counter. */
+export function counter(name: string, help: string): Counter {
+  const existing = counters.get(name)
+  if (existing) return existing
+  const values = new Map<string, number>()
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () => [...values].map(([labels, value]) => `${name}${labels} ${value}`),
+  })
+  const created: Counter = {
+    inc(labels = {}, value = 1) {
+      const key = formatLabels(labels)
+      values.set(key, (values.get(key) ?? 0) + value)
+    },
+  }
+  counters.set(name, created)
+  return created
+}
+
+/** Gauges are read from current state at scrape time. */
+export function gauge(
+  name: string,
+  help: string,
+  collect: () => number | [Labels, number][],
+): void {
+  registry.push({
+    name,
+    help,
+    type: "gauge",
+    render: () => {
+      const value = collect()
+      return typeof value === "number"
+        ? [`${name} ${value}`]
+        : value.map(([labels, v]) => `${name}${formatLabels(labels)} ${v}`)
+    },
+  })
+}
+
+export function histogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`,
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  })
+  return {
+    observe(labels: Labels, value: number) {
+      const key = formatLabels(labels)
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]++
+      })
+      entry.sum += value
+      entry.count++
+      series.set(key, entry)
+    },
+  }
+}
+
+/** Prompt durations range from seconds to many minutes. */
+export const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1800]
+
+export function renderMetrics(): string {
+  return (
+    registry
+      .flatMap((metric) => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(),
+      ])
+      .join("\n") + "\n"
+  )
+}
@@ -0,0 +1,110 @@
+// --- Access control: allowlist, roles and one-time pairing codes ---
+
+import { randomInt } from "node:crypto"
+import { createStore } from "./store"
+
+/** "ask" users can chat about the code but the agent gets no write tools. */
+export type Role = "admin" | "developer" | "ask"
+
+export const ROLES: Role[] = ["admin", "developer", "ask"]
+
+export interface AccessUser {
+  userId: string
+  role: Role
+  displayName?: string
+  grantedBy: string
+  createdAt: string
+}
+
+interface PairingCode {
+  code: string
+  role: Role
+  createdBy: string
+  expiresAt: number
+}
+
+const users = createStore<AccessUser>("users")
+const pairingCodes = createStore<PairingCode>("pairing_codes")
+
+const adminUserIds = (process.env.ADMIN_USER_IDS ?? "")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean)
+const pairCodeTtlMs = Number(process.env.PAIR_CODE_TTL_MS ?? 3_600_000)
+
+// Unambiguous characters only: codes get typed on phone keyboards
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+const CODE_LENGTH = 6
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value)
+}
+
+export function getUser(userId: string): AccessUser | undefined {
+  return users.get(userId)
+}
+
+export function listUsers(): AccessUser[] {
+  return users.values()
+}
+
+export function grant(
+  userId: string,
+  role: Role,
+  grantedBy: string,
+  displayName?: string,
+): AccessUser {
+  const existing = users.get(userId)
+  const user: AccessUser = {
+    userId,
+    role,
+    displayName: displayName ?? existing?.displayName,
+    grantedBy,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  }
+  users.set(userId, user)
+  return user
+}
+
+export function revoke(userId: string): boolean {
+  return users.delete(userId)
+}
+
+export function createPairingCode(role: Role, createdBy: string): PairingCode {
+  let code = ""
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+  }
+  const pairing = { code, role, createdBy, expiresAt: Date.now() + pairCodeTtlMs }
+  pairingCodes.set(code, pairing)
+  return pairing
+}
+
+/** Consume a one-time code. Returns the new user, or null if invalid/expired. */
+export function redeemPairingCode(
+  code: string,
+  userId: string,
+  displayName?: string,
+): AccessUser | null {
+  const key = code.trim().toUpperCase()
+  const pairing = pairingCodes.get(key)
+  if (!pairing) return null
+  pairingCodes.delete(key)
+  if (pairing.expiresAt < Date.now()) return null
+  return grant(userId, pairing.role, pairing.createdBy, displayName)
+}
+
+/**
+ * Seed admins from ADMIN_USER_IDS. If nobody is an admin yet, return a
+ * bootstrap admin pairing code for the operator to redeem from LINE.
+ */
+export function initAccess(): string | null {
+  for (const userId of adminUserIds) {
+    if (users.get(userId)?.role !== "admin") grant(userId, "admin", "env")
+  }
+  for (const pairing of pairingCodes.values()) {
+    if (pairing.expiresAt < Date.now()) pairingCodes.delete(pairing.code)
+  }
+  if (users.values().some((u) => u.role === "admin")) return null
+  return createPairingCode("admin", "bootstrap").code
+}
@@ -0,0 +1,164 @@
+// --- Files the agent changed, sent as Flex cards with download/diff links ---
+
+import type { messagingApi } from "@line/bot-sdk"
+
+export interface ArtifactLink {
+  id: string
+  path: string
+  status: "created" | "modified" | "deleted"
+  size: number
+  /** Signed, server-relative URLs; the bot proxies /artifact/* to the server */
+  url: string
+  diff_url: string
+}
+
+const MAX_BUBBLES = 12
+const STATUS_ICONS: Record<ArtifactLink["status"], string> = {
+  created: "🆕",
+  modified: "✏️",
+  deleted: "🗑️",
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function artifactSummary(artifacts: ArtifactLink[]): string {
+  return [
+    "Changed files:",
+    ...artifacts.map((a) => `${STATUS_ICONS[a.status]} ${a.path} (${a.status})`),
+  ].join("\n")
+}
+
+function artifactBubble(
+  artifact: ArtifactLink,
+  publicUrl: string,
+): messagingApi.FlexBubble {
+  const buttons: messagingApi.FlexComponent[] = [
+    {
+      type: "button",
+      style: "primary",
+      height: "sm",
+      action: { type: "uri", label: "View diff", uri: publicUrl + artifact.diff_url },
+    },
+  ]
+  if (artifact.status !== "deleted") {
+    buttons.push({
+      type: "button",
+      style: "secondary",
+      height: "sm",
+      action: { type: "uri", label: "Download", uri: publicUrl + artifact.url },
+    })
+  }
+
+  return {
+    type: "bubble",
+    size: "kilo",
+    body: {
+      type: "box",
+      layout: "vertical",
+      spacing: "sm",
+      contents: [
+        {
+          type: "text",
+          text: `${STATUS_ICONS[artifact.status]} ${artifact.path}`,
+          weight: "bold",
+          size: "sm",
+          wrap: true,
+        },
+        {
+          type: "text",
+          text:
+            artifact.status === "deleted"
+              ? "deleted"
+              : `${artifact.status} · ${formatSize(artifact.size)}`,
+          size: "xs",
+          color: "#888888",
+        },
+      ],
+    },
+    footer: { type: "box", layout: "vertical", spacing: "sm", contents: buttons },
+  }
+}
+
+/**
+ * Carousel of changed files. Links need the bot's public URL (the tunnel);
+ * without PUBLIC_URL only a plain list of paths is sent.
+ */
+export function buildArtifactsMessage(
+  artifacts: ArtifactLink[],
+  publicUrl: string,
+): messagingApi.Message {
+  if (!publicUrl) return { type: "text", text: artifactSummary(artifacts) }
+
+  const shown = artifacts.slice(0, MAX_BUBBLES)
+  const rest = artifacts.length - shown.length
+  const bubbles = shown.map((a) => artifactBubble(a, publicUrl))
+  if (rest > 0) {
+    // Replace the last card with a pointer to what didn't fit
+    bubbles[MAX_BUBBLES - 1] = {
+      type: "bubble",
+      size: "kilo",
+      body: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          { type: "text", text: `+${rest + 1} more files`, weight: "bold" },
+          {
+            type: "text",
+            text: artifacts.slice(MAX_BUBBLES - 1).map((a) => a.path).join("\n"),
+            size: "xs",
+            wrap: true,
+            color: "#888888",
+          },
+        ],
+      },
+    }
+  }
+
+  return {
+    type: "flex",
+    altText: artifactSummary(artifacts).slice(0, 400),
+    contents: { type: "carousel", contents: bubbles },
+  }
+}
+
+/** Card with a single download button, e.g. for an exported transcript. */
+export function buildDownloadMessage(
+  title: string,
+  detail: string,
+  link: ArtifactLink,
+  publicUrl: string,
+): messagingApi.FlexMessage {
+  return {
+    type: "flex",
+    altText: `${title}: ${publicUrl + link.url}`.slice(0, 400),
+    contents: {
+      type: "bubble",
+      size: "kilo",
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          { type: "text", text: title, weight: "bold", size: "sm", wrap: true },
+          { type: "text", text: detail, size: "xs", color: "#888888", wrap: true },
+        ],
+      },
+      footer: {
+        type: "box",
+        layout: "vertical",
+        contents: [
+          {
+            type: "button",
+            style: "primary",
+            height: "sm",
+            action: { type: "uri", label: "Download", uri: publicUrl + link.url },
+          },
+        ],
+      },
+    },
+  }
+}
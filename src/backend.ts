@@ -0,0 +1,171 @@
+// --- Coding backends the bot can drive: interface, typed errors, selection ---
+
+import type { ArtifactLink } from "./artifacts"
+import type { ServerEvent } from "./events"
+import type { Attachment } from "./media"
+
+export interface SessionOptions {
+  /** LINE userId, groupId or roomId; used for budgets */
+  owner: string
+  readOnly: boolean
+  /** Project name (workspace subdirectory); backend default when unset */
+  directory?: string
+}
+
+export interface PromptInput {
+  prompt: string
+  /** Who is billed */
+  user: string
+  attachments: Attachment[]
+  /** Where the result goes if the bot restarts mid-prompt (job-based backends) */
+  conversationId: string
+  /** Per-user settings (model, max_turns, max_budget, system_prompt) */
+  options: Record<string, unknown>
+}
+
+export interface TokenUsage {
+  input: number
+  output: number
+  cacheRead: number
+  cacheWrite: number
+}
+
+/** How much of the model's context window the conversation fills. */
+export interface ContextUse {
+  tokens: number
+  window: number
+}
+
+export interface PromptResult {
+  result: string
+  cost: number
+  durationMs: number
+  isError: boolean
+  /** Stopped by /abort; `result` is whatever was written before that */
+  cancelled: boolean
+  budgetWarning: string | null
+  artifacts: ArtifactLink[]
+  /** Tools called, in order */
+  toolNames: string[]
+  /** Server job id, for the tool-calls button; null when not job-based */
+  jobId: string | null
+  /** After the prompt; null when the backend doesn't report it */
+  context: ContextUse | null
+  /** The conversation was summarised into a fresh one first */
+  compacted: boolean
+}
+
+export interface BackendSession {
+  id: string
+  status: "idle" | "running" | "cancelled"
+  title: string | null
+  directory: string | null
+  totalCost: number
+  /** Place in line of its next prompt while it waits (1 = next), else 0 */
+  queuePosition: number
+  /** Tokens used so far; null when the backend doesn't report them */
+  usage: TokenUsage | null
+  context: ContextUse | null
+}
+
+export interface AbortInfo {
+  aborted: boolean
+  /** The prompt that was stopped, when the backend reports it */
+  prompt: string | null
+  startedAt: string | null
+}
+
+export interface Backend {
+  /** Name users pick with /backend, e.g. "claude" */
+  readonly name: string
+  createSession(options: SessionOptions): Promise<string>
+  getSession(sessionId: string): Promise<BackendSession>
+  /** Run a prompt to completion; `onQueued` gets its place in line (1 = next) while it waits. */
+  prompt(sessionId: string, input: PromptInput, onQueued?: (position: number) => void): Promise<PromptResult>
+  abort(sessionId: string): Promise<AbortInfo>
+  /** Summarise the conversation and carry on from the summary (/compact); optional */
+  compact?(sessionId: string, input: PromptInput): Promise<PromptResult>
+  /** Progress and approval events in the shape of the Claude server's stream */
+  subscribe(sessionId: string, listener: (event: ServerEvent) => void): () => void
+}
+
+// --- Errors ---
+
+/** A request the backend answered with an error status (0 = unreachable). */
+export class BackendError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = "BackendError"
+  }
+}
+
+/** The session was deleted, archived or forgotten; start a new one. */
+export class SessionGoneError extends BackendError {
+  override name = "SessionGoneError"
+}
+
+/** A spend cap was hit; the message explains which one. */
+export class BudgetExceededError extends BackendError {
+  override name = "BudgetExceededError"
+}
+
+export class SessionBusyError extends BackendError {
+  override name = "SessionBusyError"
+}
+
+export class BackendUnavailableError extends BackendError {
+  override name = "BackendUnavailableError"
+}
+
+/** The typed error for an HTTP status, carrying the backend's message. */
+export function errorForStatus(status: number, message: string): BackendError {
+  if (status === 404 || status === 410) return new SessionGoneError(message, status)
+  if (status === 402) return new BudgetExceededError(message, status)
+  if (status === 409) return new SessionBusyError(message, status)
+  if (status === 0 || status === 502 || status === 503 || status === 504) {
+    return new BackendUnavailableError(message, status)
+  }
+  return new BackendError(message, status)
+}
+
+// --- Registry and selection ---
+
+const backends = new Map<string, Backend>()
+
+// e.g. "legacy-app=opencode,docs=claude"
+const projectBackends = new Map(
+  (process.env.PROJECT_BACKENDS ?? "")
+    .split(",")
+    .map((entry) => entry.split("=").map((s) => s.trim()))
+    .filter((pair): pair is [string, string] => pair.length === 2 && Boolean(pair[0] && pair[1])),
+)
+const defaultBackend = process.env.DEFAULT_BACKEND ?? "claude"
+
+export function registerBackend(backend: Backend): void {
+  backends.set(backend.name, backend)
+}
+
+export function getBackend(name: string): Backend | undefined {
+  return backends.get(name)
+}
+
+export function listBackends(): string[] {
+  return Array.from(backends.keys())
+}
+
+/**
+ * The backend for a prompt: the user's choice, else the project's, else
+ * DEFAULT_BACKEND. Names that aren't configured are skipped.
+ */
+export function selectBackend(userChoice: string | undefined, project: string | undefined): Backend {
+  for (const name of [userChoice, project && projectBackends.get(project), defaultBackend]) {
+    const backend = name ? backends.get(name) : undefined
+    if (backend) return backend
+  }
+  const first = backends.values().next().value
+  if (!first) throw new Error("No backend is configured")
+  return first
+}
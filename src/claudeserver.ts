@@ -0,0 +1,185 @@
+// --- Backend: the bundled Claude Agent SDK server (jobs, approvals, git, schedules) ---
+
+import {
+  BackendUnavailableError,
+  errorForStatus,
+  type Backend,
+  type ContextUse,
+  type PromptResult,
+} from "./backend"
+import { connectEvents, subscribeSession } from "./events"
+import { trackJob, untrackJob, waitForJob, type JobResult, type PendingJob } from "./jobs"
+import { getLogContext } from "./log"
+
+export interface ClaudeServerConfig {
+  url: string
+  password?: string
+  /** Per request; prompts run as jobs and are not limited by it */
+  timeoutMs: number
+}
+
+export interface ClaudeServer extends Backend {
+  /** Any server API call; failures throw the typed error for their status. */
+  request(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<any>
+  /** Wait for a submitted job. A failed job throws its typed error. */
+  finishJob(pending: PendingJob): Promise<PromptResult>
+}
+
+function contextOf(tokens: number | undefined, window: number | null | undefined): ContextUse | null {
+  return window ? { tokens: tokens ?? 0, window } : null
+}
+
+/** A finished (completed or cancelled) job as a deliverable result. */
+export function resultOf(job: JobResult): PromptResult {
+  const result = job.result ?? {}
+  const cancelled = job.status === "cancelled"
+  return {
+    result: cancelled
+      ? ["⏹ **Cancelled.**", result.result].filter(Boolean).join(" Output so far:\n\n")
+      : (result.result ?? "Done. (no text output)"),
+    cost: result.cost_usd ?? 0,
+    durationMs: result.duration_ms ?? 0,
+    isError: result.is_error ?? false,
+    cancelled,
+    budgetWarning: result.budget_warning ?? null,
+    artifacts: result.artifacts ?? [],
+    toolNames: (result.tool_uses ?? []).map((use: { name: string }) => use.name),
+    jobId: job.id,
+    context: contextOf(result.context_tokens, result.context_window),
+    compacted: result.compacted ?? false,
+  }
+}
+
+export function createClaudeServer(config: ClaudeServerConfig): ClaudeServer {
+  const auth = config.password ? `Bearer ${config.password}` : ""
+
+  async function request(method: string, path: string, body?: unknown, signal?: AbortSignal): Promise<any> {
+    const headers: Record<string, string> = {}
+    if (auth) headers["Authorization"] = auth
+    if (body !== undefined) headers["Content-Type"] = "application/json"
+    // Lets server logs be joined with ours
+    const { requestId } = getLogContext()
+    if (requestId) headers["X-Request-Id"] = requestId
+
+    const resp = await fetch(`${config.url}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: signal ?? AbortSignal.timeout(config.timeoutMs),
+    }).catch((err: any) => {
+      throw new BackendUnavailableError(`Server unreachable: ${err?.message ?? err}`, 0)
+    })
+
+    const text = await resp.text()
+    if (!resp.ok) {
+      let detail = text.slice(0, 300)
+      try {
+        detail = JSON.parse(text).error ?? detail
+      } catch {}
+      throw errorForStatus(resp.status, detail)
+    }
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  async function finishJob(pending: PendingJob): Promise<PromptResult> {
+    let job: JobResult
+    try {
+      job = await waitForJob(pending, (jobId) => request("GET", `/job/${jobId}`))
+    } finally {
+      untrackJob(pending.jobId)
+    }
+    if (job.status === "failed") {
+      throw errorForStatus(job.errorStatus ?? 500, job.error ?? "Unknown error")
+    }
+    return resultOf(job)
+  }
+
+  // Progress, approvals and job completion for every session on the server
+  connectEvents(config.url, auth)
+
+  return {
+    name: "claude",
+    request,
+    finishJob,
+
+    async createSession({ owner, readOnly, directory }) {
+      const created = await request("POST", "/session", { read_only: readOnly, owner, directory })
+      return created.id
+    },
+
+    async getSession(sessionId) {
+      const info = await request("GET", `/session/${sessionId}`)
+      return {
+        id: info.id,
+        status: info.status,
+        title: info.title ?? null,
+        directory: info.directory ?? null,
+        totalCost: info.totalCost ?? 0,
+        queuePosition: info.queuePosition ?? 0,
+        usage: info.usage ?? null,
+        context: contextOf(info.contextTokens, info.contextWindow),
+      }
+    },
+
+    async prompt(sessionId, input, onQueued) {
+      // Submitted as a job so the result survives bot restarts and slow runs
+      const job = await request("POST", `/session/${sessionId}/job`, {
+        ...input.options,
+        prompt: input.prompt,
+        user: input.user,
+        attachments: input.attachments,
+      })
+      const pending: PendingJob = {
+        jobId: job.id,
+        sessionId,
+        conversationId: input.conversationId,
+        createdAt: new Date().toISOString(),
+      }
+      trackJob(pending)
+      // Place in line now, then as it moves up (session queue, then the server's pool)
+      const unsubscribe = onQueued
+        ? subscribeSession(sessionId, (event) => {
+            if (event.type === "session.queued" && event.properties?.jobId === job.id) {
+              onQueued(event.properties.position)
+            }
+          })
+        : null
+      if (job.position > 0) onQueued?.(job.position)
+      try {
+        return await finishJob(pending)
+      } finally {
+        unsubscribe?.()
+      }
+    },
+
+    async abort(sessionId) {
+      const res = await request("POST", `/session/${sessionId}/abort`)
+      return {
+        aborted: res.aborted === true,
+        prompt: res.job?.prompt ?? null,
+        startedAt: res.job?.startedAt ?? null,
+      }
+    },
+
+    async compact(sessionId, input) {
+      const job = await request("POST", `/session/${sessionId}/compact`, {
+        ...input.options,
+        user: input.user,
+      })
+      const pending: PendingJob = {
+        jobId: job.id,
+        sessionId,
+        conversationId: input.conversationId,
+        createdAt: new Date().toISOString(),
+      }
+      trackJob(pending)
+      return finishJob(pending)
+    },
+
+    subscribe: subscribeSession,
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test"
+import { formatHelp, renderCommand, type CustomCommand } from "./commands"
+
+const review: CustomCommand = {
+  name: "review",
+  description: "Review a file",
+  argumentHint: "<file>",
+  prompt: "Review $ARGS for bugs. Focus on $ARGS only.",
+  scope: "workspace",
+}
+
+describe("renderCommand", () => {
+  test("replaces every $ARGS", () => {
+    expect(renderCommand(review, "src/a.ts")).toBe("Review src/a.ts for bugs. Focus on src/a.ts only.")
+  })
+
+  test("appends the arguments when the template has no $ARGS", () => {
+    const tests = { ...review, prompt: "Run the tests." }
+    expect(renderCommand(tests, "only unit")).toBe("Run the tests.\n\nonly unit")
+    expect(renderCommand(tests, "")).toBe("Run the tests.")
+  })
+})
+
+describe("formatHelp", () => {
+  test("shows admin commands to admins only", () => {
+    expect(formatHelp("admin", [])).toContain("/grant <userId> <role>")
+    expect(formatHelp("developer", [])).not.toContain("/grant")
+  })
+
+  test("lists custom commands with their hints", () => {
+    expect(formatHelp("developer", [review])).toContain("/review <file> — Review a file")
+  })
+
+  test("hides custom commands that a built-in shadows", () => {
+    const help = formatHelp("developer", [{ ...review, name: "diff", description: "Mine" }])
+    expect(help).not.toContain("Mine")
+    expect(help).toContain("Add your own as .claude-line/commands/<name>.md")
+  })
+})
@@ -0,0 +1,79 @@
+// --- Slash commands: built-ins for /help, custom prompt templates from the workspace ---
+
+import type { Role } from "./access"
+
+export interface CommandHelp {
+  /** Including arguments, e.g. "/resume <n>" */
+  usage: string
+  description: string
+  /** Only shown to admins */
+  adminOnly?: boolean
+}
+
+/** A template from .claude-line/commands/<name>.md (served by GET /command). */
+export interface CustomCommand {
+  name: string
+  description: string | null
+  argumentHint: string | null
+  prompt: string
+  scope: "workspace" | "project"
+}
+
+export const BUILTIN_COMMANDS: CommandHelp[] = [
+  { usage: "/help", description: "This list" },
+  { usage: "/new", description: "Start a new session (the old one is archived)" },
+  { usage: "/abort", description: "Stop the current prompt, keeping its output" },
+  { usage: "/sessions", description: "Session info, tokens and context use" },
+  { usage: "/compact", description: "Summarise the conversation into a fresh session" },
+  { usage: "/cost", description: "Session cost and your spend" },
+  { usage: "/history", description: "This chat's past sessions" },
+  { usage: "/resume <n>", description: "Switch back to a session from /history" },
+  { usage: "/export [n]", description: "Markdown transcript of a session" },
+  { usage: "/project list|use|new", description: "List, switch or create projects" },
+  { usage: "/diff", description: "Uncommitted changes with diff links" },
+  { usage: "/commit [message]", description: "Commit all changes" },
+  { usage: "/undo", description: "Revert the last prompt's changes" },
+  { usage: "/model [id|default]", description: "Choose your model" },
+  { usage: "/turns [n|default]", description: "Max agentic turns per prompt" },
+  { usage: "/budget [usd|default]", description: "Max spend per prompt" },
+  { usage: "/system [text|clear]", description: "Your system prompt" },
+  { usage: "/settings", description: "Your settings" },
+  { usage: "/backend [name|default]", description: "Backend for new sessions" },
+  { usage: "/schedule add|list|remove", description: "Prompts on a schedule" },
+  { usage: "/hook list|subscribe|unsubscribe", description: "CI and git-host hook results" },
+  { usage: "/pair <code>", description: "Redeem a pairing code" },
+  { usage: "/invite [role]", description: "Create a pairing code", adminOnly: true },
+  { usage: "/users", description: "List users and roles", adminOnly: true },
+  { usage: "/grant <userId> <role>", description: "Add a user or change a role", adminOnly: true },
+  { usage: "/revoke <userId>", description: "Remove a user", adminOnly: true },
+]
+
+const builtinNames = new Set(BUILTIN_COMMANDS.map((command) => command.usage.split(" ")[0]))
+
+function isBuiltinCommand(command: string): boolean {
+  return builtinNames.has(command.toLowerCase())
+}
+
+/** The template's prompt for "/name args"; without $ARGS the arguments go at the end. */
+export function renderCommand(command: CustomCommand, args: string): string {
+  if (command.prompt.includes("$ARGS")) return command.prompt.replaceAll("$ARGS", args)
+  return args ? `${command.prompt}\n\n${args}` : command.prompt
+}
+
+/** /help text; built-ins shadow custom commands of the same name. */
+export function formatHelp(role: Role, custom: CustomCommand[]): string {
+  const builtins = BUILTIN_COMMANDS.filter((command) => !command.adminOnly || role === "admin")
+  const lines = ["Commands:", ...builtins.map((command) => `${command.usage} — ${command.description}`)]
+  const usable = custom.filter((command) => !isBuiltinCommand(`/${command.name}`))
+  if (usable.length > 0) {
+    lines.push("", "Custom commands:")
+    for (const command of usable) {
+      const usage = [`/${command.name}`, command.argumentHint].filter(Boolean).join(" ")
+      lines.push(command.description ? `${usage} — ${command.description}` : usage)
+    }
+  } else {
+    lines.push("", "Add your own as .claude-line/commands/<name>.md in the workspace.")
+  }
+  lines.push("", "Anything else is sent to Claude as a prompt.")
+  return lines.join("\n")
+}
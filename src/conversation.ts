@@ -0,0 +1,80 @@
+// --- Conversations: 1:1 chats, groups and multi-person rooms ---
+
+import type { messagingApi } from "@line/bot-sdk"
+
+export interface Conversation {
+  /** Push target and session key: userId, groupId or roomId */
+  id: string
+  type: "user" | "group" | "room"
+  /** The person who sent the event */
+  userId: string
+}
+
+export function conversationOf(source: any): Conversation | null {
+  if (!source?.userId) return null
+  if (source.type === "group" && source.groupId) {
+    return { id: source.groupId, type: "group", userId: source.userId }
+  }
+  if (source.type === "room" && source.roomId) {
+    return { id: source.roomId, type: "room", userId: source.userId }
+  }
+  return { id: source.userId, type: "user", userId: source.userId }
+}
+
+export function isShared(conversation: Conversation): boolean {
+  return conversation.type !== "user"
+}
+
+/**
+ * In a group or room the bot only answers when it is @mentioned or the text
+ * starts with the trigger prefix. Returns the text with the trigger removed,
+ * or null if the message was not addressed to the bot.
+ */
+export function extractAddressedText(
+  message: any,
+  prefix: string,
+  botUserId: string,
+): string | null {
+  const text: string = message.text ?? ""
+  const mentions: any[] = message.mention?.mentionees ?? []
+  const self = mentions.filter(
+    (m) => m.isSelf || (botUserId && m.userId === botUserId),
+  )
+
+  if (self.length > 0) {
+    // Cut mentions out back to front so earlier indexes stay valid
+    let stripped = text
+    for (const m of [...self].sort((a, b) => b.index - a.index)) {
+      stripped = stripped.slice(0, m.index) + stripped.slice(m.index + m.length)
+    }
+    return stripped.trim()
+  }
+
+  if (prefix && text.toLowerCase().startsWith(prefix.toLowerCase())) {
+    return text.slice(prefix.length).trim()
+  }
+  return null
+}
+
+const displayNames = new Map<string, string>()
+
+/** Speaker's display name, cached; falls back to the tail of the userId. */
+export async function speakerName(
+  lineClient: messagingApi.MessagingApiClient,
+  conversation: Conversation,
+): Promise<string> {
+  const key = `${conversation.id}:${conversation.userId}`
+  const cached = displayNames.get(key)
+  if (cached) return cached
+
+  const profile = await (conversation.type === "group"
+    ? lineClient.getGroupMemberProfile(conversation.id, conversation.userId)
+    : conversation.type === "room"
+      ? lineClient.getRoomMemberProfile(conversation.id, conversation.userId)
+      : lineClient.getProfile(conversation.userId)
+  ).catch(() => null)
+
+  const name = profile?.displayName ?? `user-${conversation.userId.slice(-6)}`
+  displayNames.set(key, name)
+  return name
+}
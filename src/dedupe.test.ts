@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test"
+import { claimEvent, finishEvent } from "./dedupe"
+
+describe("claimEvent", () => {
+  test("claims an event once", () => {
+    expect(claimEvent("ev-1")).toBeNull()
+    expect(claimEvent("ev-1")?.status).toBe("processing")
+    expect(claimEvent("ev-2")).toBeNull()
+  })
+
+  test("keeps refusing redeliveries after the event finished, failed included", () => {
+    claimEvent("ev-3")
+    finishEvent("ev-3", "failed")
+    expect(claimEvent("ev-3")?.status).toBe("failed")
+  })
+
+  test("ignores finishing an event it never saw", () => {
+    finishEvent("ev-unknown", "done")
+    expect(claimEvent("ev-unknown")).toBeNull()
+  })
+})
@@ -0,0 +1,45 @@
+// --- Webhook event deduplication, so LINE redeliveries don't run twice ---
+
+import { createStore } from "./store"
+
+export interface SeenEvent {
+  webhookEventId: string
+  receivedAt: string
+  status: "processing" | "done" | "failed"
+}
+
+const seenEvents = createStore<SeenEvent>("webhook_events")
+// LINE gives up redelivering well within a day
+const ttlMs = Number(process.env.WEBHOOK_DEDUP_TTL_MS ?? 86_400_000)
+const PRUNE_INTERVAL_MS = 60 * 60_000
+
+/**
+ * Record an event as started. Returns the earlier record instead when the
+ * event was already seen, whatever became of it: work that started once
+ * (a prompt job, a reply) must not be repeated.
+ */
+export function claimEvent(webhookEventId: string): SeenEvent | null {
+  const existing = seenEvents.get(webhookEventId)
+  if (existing) return existing
+  seenEvents.set(webhookEventId, {
+    webhookEventId,
+    receivedAt: new Date().toISOString(),
+    status: "processing",
+  })
+  return null
+}
+
+export function finishEvent(webhookEventId: string, status: "done" | "failed"): void {
+  const seen = seenEvents.get(webhookEventId)
+  if (seen) seenEvents.set(webhookEventId, { ...seen, status })
+}
+
+function pruneEvents(): void {
+  const cutoff = Date.now() - ttlMs
+  for (const seen of seenEvents.values()) {
+    if (Date.parse(seen.receivedAt) < cutoff) seenEvents.delete(seen.webhookEventId)
+  }
+}
+
+pruneEvents()
+setInterval(pruneEvents, PRUNE_INTERVAL_MS).unref()
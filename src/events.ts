@@ -0,0 +1,112 @@
+// --- Server SSE client: subscribe to /event and dispatch per session ---
+
+import { createLogger } from "./log"
+
+export interface ServerEvent {
+  type: string
+  properties: any
+}
+
+type Listener = (event: ServerEvent) => void
+/** Maps another backend's events onto ours; null drops the event. */
+type Normalize = (raw: any) => ServerEvent | null
+
+const listeners = new Map<string, Set<Listener>>()
+// Listeners for every event, e.g. schedules firing in sessions nobody watches
+const globalListeners = new Set<Listener>()
+const RECONNECT_DELAY_MS = 3_000
+
+const log = createLogger("events")
+
+function sessionIdOf(event: ServerEvent): string | undefined {
+  return event.properties?.sessionId ?? event.properties?.session?.id
+}
+
+function dispatch(event: ServerEvent): void {
+  const sessionId = sessionIdOf(event)
+  const targets = [...globalListeners, ...(sessionId ? (listeners.get(sessionId) ?? []) : [])]
+  for (const listener of targets) {
+    try {
+      listener(event)
+    } catch (err: any) {
+      log.error("listener error", { sessionId, err })
+    }
+  }
+}
+
+async function readStream(url: string, auth: string, normalize?: Normalize): Promise<void> {
+  const headers: Record<string, string> = { Accept: "text/event-stream" }
+  if (auth) headers["Authorization"] = auth
+
+  const resp = await fetch(url, { headers })
+  if (!resp.ok || !resp.body) throw new Error(`SSE ${resp.status}`)
+  log.info("connected", { url })
+
+  const reader = resp.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    let sep: number
+    while ((sep = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, sep)
+      buffer = buffer.slice(sep + 2)
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n")
+      if (!data) continue
+      try {
+        const event = normalize ? normalize(JSON.parse(data)) : JSON.parse(data)
+        if (event) dispatch(event)
+      } catch {
+        // Ignore malformed frames
+      }
+    }
+  }
+}
+
+/** Keep an SSE connection to a backend open, reconnecting when it drops. */
+export function connectEvents(serverUrl: string, auth: string, normalize?: Normalize): void {
+  const url = `${serverUrl}/event`
+  const loop = async () => {
+    while (true) {
+      try {
+        await readStream(url, auth, normalize)
+        log.warn("stream ended, reconnecting", { url })
+      } catch (err: any) {
+        log.error("connection failed", { url, err })
+      }
+      await Bun.sleep(RECONNECT_DELAY_MS)
+    }
+  }
+  loop()
+}
+
+export function subscribeAll(listener: Listener): () => void {
+  globalListeners.add(listener)
+  return () => {
+    globalListeners.delete(listener)
+  }
+}
+
+export function subscribeSession(
+  sessionId: string,
+  listener: Listener,
+): () => void {
+  let set = listeners.get(sessionId)
+  if (!set) {
+    set = new Set()
+    listeners.set(sessionId, set)
+  }
+  set.add(listener)
+  return () => {
+    set.delete(listener)
+    if (set.size === 0) listeners.delete(sessionId)
+  }
+}
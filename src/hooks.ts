@@ -0,0 +1,100 @@
+// --- Inbound hook results: subscriptions and the Flex card pushed to them ---
+
+import type { messagingApi } from "@line/bot-sdk"
+import { createStore } from "./store"
+
+// Hook name → conversation ids (users, groups, rooms) that get its results
+const subscriptions = createStore<{ hook: string; conversations: string[] }>("hook_subscriptions")
+
+export function subscribersOf(hook: string): string[] {
+  return subscriptions.get(hook)?.conversations ?? []
+}
+
+export function isSubscribed(hook: string, conversationId: string): boolean {
+  return subscribersOf(hook).includes(conversationId)
+}
+
+export function subscribeHook(hook: string, conversationId: string): void {
+  const conversations = subscribersOf(hook).filter((id) => id !== conversationId)
+  subscriptions.set(hook, { hook, conversations: [...conversations, conversationId] })
+}
+
+/** Returns false if the conversation wasn't subscribed. */
+export function unsubscribeHook(hook: string, conversationId: string): boolean {
+  const conversations = subscribersOf(hook)
+  if (!conversations.includes(conversationId)) return false
+  const rest = conversations.filter((id) => id !== conversationId)
+  if (rest.length === 0) subscriptions.delete(hook)
+  else subscriptions.set(hook, { hook, conversations: rest })
+  return true
+}
+
+export interface HookRun {
+  hook: string
+  status: "completed" | "cancelled" | "failed"
+  isError: boolean
+  /** Result text or failure message */
+  text: string
+  /** e.g. "$0.0123 · 42.0s" */
+  meta: string
+  toolCount: number
+  /** Postback that replies with the full result */
+  resultPostback: string
+  /** Signed transcript link, when the bot has a public URL */
+  transcriptUrl: string | null
+}
+
+const MAX_SUMMARY = 600
+
+/** Card with the start of the result and buttons to open the whole run. */
+export function buildHookMessage(run: HookRun): messagingApi.FlexMessage {
+  const failed = run.status === "failed" || run.isError
+  const icon = failed ? "❌" : run.status === "cancelled" ? "⏹" : "✅"
+  const summary = run.text.length > MAX_SUMMARY ? `${run.text.slice(0, MAX_SUMMARY)}…` : run.text
+  const details = [run.meta, run.toolCount > 0 ? `${run.toolCount} tool calls` : ""].filter(Boolean)
+
+  const buttons: messagingApi.FlexComponent[] = [
+    {
+      type: "button",
+      style: "primary",
+      height: "sm",
+      action: { type: "postback", label: "Full result", data: run.resultPostback, displayText: "Show full result" },
+    },
+  ]
+  if (run.transcriptUrl) {
+    buttons.push({
+      type: "button",
+      style: "secondary",
+      height: "sm",
+      action: { type: "uri", label: "Transcript", uri: run.transcriptUrl },
+    })
+  }
+
+  return {
+    type: "flex",
+    altText: `${icon} ${run.hook}: ${summary}`.slice(0, 400),
+    contents: {
+      type: "bubble",
+      size: "mega",
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          { type: "text", text: `🪝 ${run.hook}`, weight: "bold", size: "sm", wrap: true },
+          {
+            type: "text",
+            text: summary || "(no text output)",
+            size: "sm",
+            wrap: true,
+            color: failed ? "#B00020" : undefined,
+          },
+          ...(details.length > 0
+            ? [{ type: "text" as const, text: `${icon} ${details.join(" · ")}`, size: "xxs" as const, color: "#888888" }]
+            : []),
+        ],
+      },
+      footer: { type: "box", layout: "vertical", spacing: "sm", contents: buttons },
+    },
+  }
+}
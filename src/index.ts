@@ -1,5 +1,85 @@
 import { messagingApi } from "@line/bot-sdk"
 import { createHmac } from "node:crypto"
+import {
+  createPairingCode,
+  getUser,
+  grant,
+  initAccess,
+  isRole,
+  listUsers,
+  redeemPairingCode,
+  revoke,
+  ROLES,
+  type AccessUser,
+} from "./access"
+import { buildArtifactsMessage, buildDownloadMessage } from "./artifacts"
+import { formatHelp, renderCommand, type CustomCommand } from "./commands"
+import {
+  conversationOf,
+  extractAddressedText,
+  isShared,
+  speakerName,
+  type Conversation,
+} from "./conversation"
+import {
+  BudgetExceededError,
+  getBackend,
+  listBackends,
+  registerBackend,
+  selectBackend,
+  SessionGoneError,
+  type Backend,
+  type PromptResult,
+} from "./backend"
+import { createClaudeServer, resultOf } from "./claudeserver"
+import { claimEvent, finishEvent } from "./dedupe"
+import { subscribeAll, subscribeSession, type ServerEvent } from "./events"
+import {
+  buildPermissionMessage,
+  decisionLabel,
+  type PermissionDecision,
+} from "./permission"
+import {
+  addPendingAttachment,
+  downloadContent,
+  imageMediaType,
+  maxAttachmentBytes,
+  takePendingAttachments,
+  type Attachment,
+} from "./media"
+import {
+  listPendingJobs,
+  trackJob,
+  waitForJob,
+  type JobResult,
+  type PendingJob,
+} from "./jobs"
+import {
+  buildHookMessage,
+  isSubscribed,
+  subscribeHook,
+  subscribersOf,
+  unsubscribeHook,
+} from "./hooks"
+import { createLogger, hashUser, withLogContext } from "./log"
+import { buildResponseMessage, formatDuration, formatResponseMeta, formatTokens } from "./markdown"
+import { counter, DURATION_BUCKETS, gauge, histogram, renderMetrics } from "../shared/metrics"
+import { createMockBackend } from "./mockbackend"
+import { createOpenCodeBackend } from "./opencode"
+import { createProgressReporter, formatToolUse, truncate } from "./progress"
+import {
+  getSettings,
+  isModelAllowed,
+  parseBudget,
+  parseTurns,
+  promptOptions,
+  settingsLimits,
+  updateSettings,
+} from "./settings"
+import { suggestReplies, textAction } from "./quickreply"
+import { ensureRichMenu } from "./richmenu"
+import { createStore, storeBackend } from "./store"
+import { createTranscriber } from "./transcribe"
 
 // --- Config ---
 const channelAccessToken = process.env.LINE_CHANNEL_ACCESS_TOKEN
@@ -8,64 +88,130 @@ const port = Number(process.env.PORT ?? 3000)
 const serverUrl = process.env.SERVER_URL ?? "http://server:4096"
 const serverPassword = process.env.SERVER_PASSWORD
 const timeoutMs = Number(process.env.PROMPT_TIMEOUT_MS ?? 300_000)
+const progressIntervalMs = Number(process.env.PROGRESS_INTERVAL_MS ?? 5_000)
+const groupPrefix = process.env.GROUP_PREFIX ?? "/cc"
+// Public base URL of this bot (the tunnel), used for file/diff links
+const publicUrl = (process.env.PUBLIC_URL ?? "").replace(/\/+$/, "")
+
+// Optional bearer token for GET /metrics, since the bot is public via the tunnel
+const metricsToken = process.env.METRICS_TOKEN
+
+const startupLog = createLogger("startup")
 
 if (!channelAccessToken || !channelSecret) {
-  console.error("Missing LINE_CHANNEL_ACCESS_TOKEN or LINE_CHANNEL_SECRET")
+  startupLog.error("Missing LINE_CHANNEL_ACCESS_TOKEN or LINE_CHANNEL_SECRET")
   process.exit(1)
 }
 
-console.log("Claude Code LINE bot configuration:")
-console.log("- Server URL:", serverUrl)
-console.log("- Server auth:", serverPassword ? "enabled" : "disabled")
-console.log("- Timeout:", `${timeoutMs}ms`)
+const transcriber = createTranscriber()
+startupLog.info("Claude Code LINE bot configuration", {
+  serverUrl,
+  serverAuth: Boolean(serverPassword),
+  timeoutMs,
+  storage: storeBackend(),
+  // 0 = disabled
+  progressIntervalMs,
+  groupPrefix,
+  transcription: transcriber?.name ?? null,
+  publicUrl: publicUrl || null,
+  metricsAuth: Boolean(metricsToken),
+})
+
+// --- Logs and metrics ---
+const lineLog = createLogger("line")
+const promptLog = createLogger("prompt")
+const accessLog = createLogger("access")
+const webhookLog = createLogger("webhook")
+
+const webhookEvents = counter("claude_line_webhook_events_total", "LINE webhook events by type")
+const duplicateEvents = counter(
+  "claude_line_webhook_duplicates_total",
+  "Webhook events skipped because they were already received",
+)
+const promptsTotal = counter("claude_line_prompts_total", "Prompts by outcome")
+const promptDuration = histogram(
+  "claude_line_prompt_duration_seconds",
+  "Time from submitting a prompt to its result",
+  DURATION_BUCKETS,
+)
+const costTotal = counter("claude_line_cost_usd_total", "Reported prompt cost in USD")
+const toolUses = counter("claude_line_tool_uses_total", "Tool calls reported in prompt results")
+const pushFailures = counter("claude_line_line_push_failures_total", "Failed LINE pushes by kind")
+const errorsTotal = counter("claude_line_errors_total", "Errors by source")
+
+/** Log and count a failed LINE push; the conversation simply misses that message. */
+function pushFailed(kind: string, err: any): void {
+  pushFailures.inc({ kind })
+  lineLog.error("push failed", { kind, err })
+}
 
 // --- LINE Client ---
 const lineClient = new messagingApi.MessagingApiClient({ channelAccessToken })
+const blobClient = new messagingApi.MessagingApiBlobClient({ channelAccessToken })
 
-// --- Server HTTP Client ---
-const serverAuth = serverPassword ? `Bearer ${serverPassword}` : ""
-
-async function serverRequest(
-  method: string,
-  path: string,
-  body?: unknown,
-  signal?: AbortSignal,
-): Promise<any> {
-  const headers: Record<string, string> = {}
-  if (serverAuth) headers["Authorization"] = serverAuth
-  if (body !== undefined) headers["Content-Type"] = "application/json"
-
-  const resp = await fetch(`${serverUrl}${path}`, {
-    method,
-    headers,
-    body: body !== undefined ? JSON.stringify(body) : undefined,
-    signal: signal ?? AbortSignal.timeout(timeoutMs),
+// Bot's own userId, used to recognise @mentions in groups
+let botUserId = ""
+lineClient
+  .getBotInfo()
+  .then((info) => {
+    botUserId = info.userId
+  })
+  .catch((err: any) => {
+    lineLog.error("failed to fetch bot info", { err })
   })
 
-  const text = await resp.text()
-  if (!resp.ok) throw new Error(`Server ${resp.status}: ${text.slice(0, 300)}`)
-  try {
-    return JSON.parse(text)
-  } catch {
-    return text
-  }
+// --- Access control bootstrap ---
+const bootstrapCode = initAccess()
+if (bootstrapCode) {
+  // Operators read the code from the logs, so this one is printed as-is
+  startupLog.info(`No admin yet: send "/pair ${bootstrapCode}" to the bot to become admin`)
 }
 
+// --- Backends ---
+const claudeServer = createClaudeServer({ url: serverUrl, password: serverPassword, timeoutMs })
+const serverRequest = claudeServer.request
+
+for (const backend of [
+  claudeServer,
+  createOpenCodeBackend(),
+  process.env.MOCK_BACKEND === "true" ? createMockBackend() : null,
+]) {
+  if (backend) registerBackend(backend)
+}
+startupLog.info("backends", { available: listBackends() })
+
 // --- Session Management ---
 interface UserSession {
   sessionId: string
   totalCost: number
+  readOnly?: boolean
+  /** Backend name; unset means "claude" */
+  backend?: string
 }
 
-const sessions = new Map<string, UserSession>()
-const userQueues = new Map<string, Promise<void>>()
+// Conversation id (userId, groupId or roomId) → server session, persisted so
+// restarts keep conversations. Groups and rooms share one session.
+const sessions = createStore<UserSession>("user_sessions")
+// Conversation id → project name (workspace subdirectory); kept across /new
+const projects = createStore<string>("conversation_projects")
+// Conversation id → its sessions, newest first, for /history and /resume
+const histories = createStore<string[]>("conversation_history")
+const MAX_HISTORY = 20
+// Conversation id → sessions of scheduled and hook runs delivered there, so
+// their approval and tool-call buttons work outside the current session
+const linkedSessions = createStore<string[]>("linked_sessions")
+const MAX_LINKED = 50
+const conversationQueues = new Map<string, Promise<void>>()
 
-// --- Per-user request queue ---
-function enqueueForUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
-  const prev = userQueues.get(userId) ?? Promise.resolve()
+// --- Per-conversation request queue ---
+function enqueueForConversation<T>(
+  conversationId: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const prev = conversationQueues.get(conversationId) ?? Promise.resolve()
   const next = prev.then(fn, fn)
-  userQueues.set(
-    userId,
+  conversationQueues.set(
+    conversationId,
     next.then(
       () => {},
       () => {},
@@ -74,6 +220,9 @@ function enqueueForUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
   return next
 }
 
+gauge("claude_line_sessions", "Conversations with a server session", () => sessions.values().length)
+gauge("claude_line_pending_jobs", "Submitted prompts waiting for a result", () => listPendingJobs().length)
+
 // --- LINE Signature Validation ---
 function validateSignature(body: string, signature: string): boolean {
   const hash = createHmac("SHA256", channelSecret!)
@@ -122,236 +271,1767 @@ function chunkText(text: string, limit: number = LINE_MAX_TEXT): string[] {
 }
 
 // --- Send long message via Push API ---
-async function sendMessage(userId: string, text: string): Promise<void> {
+async function sendMessage(
+  to: string,
+  text: string,
+  quickReply?: messagingApi.QuickReply,
+): Promise<void> {
   const chunks = chunkText(text)
-  for (const chunk of chunks) {
+  for (const [i, chunk] of chunks.entries()) {
+    // Quick replies only show on the last message
+    const last = i === chunks.length - 1
     await lineClient
       .pushMessage({
-        to: userId,
-        messages: [{ type: "text", text: chunk }],
+        to,
+        messages: [{ type: "text", text: chunk, ...(last && quickReply ? { quickReply } : {}) }],
       })
       .catch((err: any) => {
-        console.error("Failed to send LINE message:", err?.message ?? err)
+        pushFailed("text", err)
       })
   }
 }
 
-// --- Send prompt to server ---
+async function replyText(replyToken: string, text: string): Promise<void> {
+  await lineClient.replyMessage({
+    replyToken,
+    messages: [{ type: "text", text }],
+  })
+}
+
+function linkSession(conversationId: string, sessionId: string): void {
+  const previous = (linkedSessions.get(conversationId) ?? []).filter((id) => id !== sessionId)
+  linkedSessions.set(conversationId, [sessionId, ...previous].slice(0, MAX_LINKED))
+}
+
+/** Whether buttons sent to a conversation may act on a session. */
+function mayUseSession(conversationId: string, sessionId: string): boolean {
+  return (
+    sessions.get(conversationId)?.sessionId === sessionId ||
+    (linkedSessions.get(conversationId) ?? []).includes(sessionId)
+  )
+}
+
+function recordHistory(conversationId: string, sessionId: string): void {
+  const previous = (histories.get(conversationId) ?? []).filter((id) => id !== sessionId)
+  histories.set(conversationId, [sessionId, ...previous].slice(0, MAX_HISTORY))
+}
+
+// --- Archive a conversation's session on the server and forget it here ---
+async function clearSession(conversationId: string): Promise<void> {
+  const session = sessions.get(conversationId)
+  // Other backends keep their sessions; the bot just stops using them
+  if (session && backendOf(session) === claudeServer) {
+    await serverRequest("DELETE", `/session/${session.sessionId}`).catch(
+      () => {},
+    )
+  }
+  sessions.delete(conversationId)
+}
+
+/** The backend a session lives on; sessions from before backends were selectable are on the Claude server. */
+function backendOf(session: UserSession): Backend | undefined {
+  return getBackend(session.backend ?? "claude")
+}
+
+/** Whether a conversation's session (or its next one) runs on the Claude server. */
+function usesClaudeServer(conversation: Conversation): boolean {
+  const session = sessions.get(conversation.id)
+  const backend = session
+    ? backendOf(session)
+    : selectBackend(getSettings(conversation.userId).backend, projects.get(conversation.id))
+  return backend === claudeServer
+}
+
+// --- Prompt results ---
+type PromptOutcome = PromptResult & { sessionId: string }
+
+/** Count a prompt's result and add its cost to the conversation's session. */
+async function settlePrompt(
+  conversationId: string,
+  sessionId: string,
+  startedAt: number,
+  run: Promise<PromptResult>,
+): Promise<PromptOutcome> {
+  let result: PromptResult
+  try {
+    result = await run
+  } catch (err: any) {
+    promptsTotal.inc({ outcome: "failed" })
+    throw err
+  } finally {
+    promptDuration.observe({}, (Date.now() - startedAt) / 1000)
+  }
+
+  const { cost, cancelled, isError } = result
+  promptsTotal.inc({ outcome: cancelled ? "cancelled" : isError ? "error" : "success" })
+  costTotal.inc({}, cost)
+  for (const tool of result.toolNames) toolUses.inc({ tool })
+  const s = sessions.get(conversationId)
+  if (s?.sessionId === sessionId) {
+    sessions.set(conversationId, { ...s, totalCost: s.totalCost + cost })
+  }
+  return { ...result, sessionId }
+}
+
+/** Wait for a job submitted to the Claude server (e.g. before a restart). */
+function awaitJob(pending: PendingJob): Promise<PromptOutcome> {
+  // Measured from submission, so time spent queued on the server counts
+  return settlePrompt(
+    pending.conversationId,
+    pending.sessionId,
+    Date.parse(pending.createdAt),
+    claudeServer.finishJob(pending),
+  )
+}
+
+/** The backend no longer knows the session at all (404 on lookup). */
+function sessionMissing(backend: Backend, sessionId: string): Promise<boolean> {
+  return backend.getSession(sessionId).then(
+    () => false,
+    (err) => err instanceof SessionGoneError && err.status === 404,
+  )
+}
+
+// --- Send prompt to the conversation's backend ---
 async function sendPrompt(
-  userId: string,
+  conversation: Conversation,
   prompt: string,
-): Promise<{ result: string; cost: number; isError: boolean }> {
-  const session = sessions.get(userId)
+  onEvent?: (event: ServerEvent) => void,
+  attachments: Attachment[] = [],
+): Promise<PromptOutcome> {
+  const key = conversation.id
+  let session = sessions.get(key)
+  let backend = session && backendOf(session)
 
-  // Create session if needed
-  if (!session) {
-    const created = await serverRequest("POST", "/session")
-    sessions.set(userId, { sessionId: created.id, totalCost: 0 })
-    console.log(`[${userId.slice(-8)}] Created session: ${created.id}`)
+  // Create session if needed; its backend and write access follow whoever starts it
+  if (!session || !backend) {
+    backend = selectBackend(getSettings(conversation.userId).backend, projects.get(key))
+    const readOnly = getUser(conversation.userId)?.role === "ask"
+    const sessionId = await backend.createSession({
+      owner: conversation.userId,
+      readOnly,
+      directory: projects.get(key),
+    })
+    session = { sessionId, totalCost: 0, readOnly, backend: backend.name }
+    sessions.set(key, session)
+    recordHistory(key, sessionId)
+    promptLog.info("session created", { sessionId, backend: backend.name })
   }
 
-  const { sessionId } = sessions.get(userId)!
+  const { sessionId } = session
 
-  console.log(`[${userId.slice(-8)}] Sending prompt to session ${sessionId}`)
+  promptLog.info("sending prompt", {
+    sessionId,
+    backend: backend.name,
+    chars: prompt.length,
+    attachments: attachments.length,
+  })
 
+  const unsubscribe = onEvent ? backend.subscribe(sessionId, onEvent) : null
+  let toldPosition = false
   try {
-    const result = await serverRequest(
-      "POST",
-      `/session/${sessionId}/message`,
-      { prompt },
+    const run = backend.prompt(
+      sessionId,
+      {
+        prompt,
+        user: conversation.userId,
+        attachments,
+        options: promptOptions(conversation.userId),
+        conversationId: key,
+      },
+      (position) => {
+        // Once is enough; the progress updates show when it starts
+        if (toldPosition) return
+        toldPosition = true
+        sendMessage(key, `⏳ The server is busy: you are #${position} in line.`)
+      },
+    )
+    return await settlePrompt(key, sessionId, Date.now(), run)
+  } catch (err: any) {
+    // The session was deleted or lost: start a fresh one and retry. Not when
+    // it was archived (e.g. /new while the job waited): that prompt was replaced
+    if (err instanceof SessionGoneError && (await sessionMissing(backend, sessionId))) {
+      promptLog.info("session expired, creating fresh", { sessionId })
+      sessions.delete(key)
+      return sendPrompt(conversation, prompt, onEvent, attachments)
+    }
+    throw err
+  } finally {
+    unsubscribe?.()
+  }
+}
+
+// --- Format GET /budget response for /cost ---
+function formatBudget(budget: any): string[] {
+  const cap = (value: number) => (value > 0 ? ` / $${value.toFixed(2)}` : "")
+  const { spend, global, caps } = budget
+  return [
+    "Your spend:",
+    `  Today: $${spend.today.toFixed(4)}${cap(caps.userDaily)}`,
+    `  This month: $${spend.month.toFixed(4)}${cap(caps.userMonthly)}`,
+    `  All time: $${spend.allTime.toFixed(4)}`,
+    "Everyone:",
+    `  Today: $${global.today.toFixed(4)}${cap(caps.globalDaily)}`,
+    `  This month: $${global.month.toFixed(4)}${cap(caps.globalMonthly)}`,
+  ]
+}
+
+// --- Admin commands: /users, /grant, /revoke, /invite ---
+async function handleAdminCommand(
+  adminId: string,
+  command: string,
+  args: string[],
+  replyToken: string,
+): Promise<void> {
+  const roleList = ROLES.join(" | ")
+
+  if (command === "/users") {
+    const lines = listUsers().map(
+      (u) => `${u.role.padEnd(9)} ${u.displayName ?? "-"}\n  ${u.userId}`,
     )
+    await replyText(replyToken, lines.length ? lines.join("\n") : "No users.")
+    return
+  }
 
-    const cost = result.cost_usd ?? 0
-    const s = sessions.get(userId)!
-    s.totalCost += cost
+  if (command === "/invite") {
+    const role = args[0] ?? "developer"
+    if (!isRole(role)) {
+      await replyText(replyToken, `Usage: /invite [${roleList}]`)
+      return
+    }
+    const pairing = createPairingCode(role, adminId)
+    const minutes = Math.round((pairing.expiresAt - Date.now()) / 60_000)
+    await replyText(
+      replyToken,
+      `One-time code for ${role}: ${pairing.code}\nValid ${minutes} min. The new user sends:\n/pair ${pairing.code}`,
+    )
+    return
+  }
 
-    return {
-      result: result.result ?? "Done. (no text output)",
-      cost,
-      isError: result.is_error ?? false,
+  if (command === "/grant") {
+    const [targetId, role] = args
+    if (!targetId || !role || !isRole(role)) {
+      await replyText(replyToken, `Usage: /grant <userId> <${roleList}>`)
+      return
     }
-  } catch (err: any) {
-    // If session expired or not found, create fresh and retry
-    if (
-      err?.message?.includes("404") ||
-      err?.message?.includes("not found") ||
-      err?.message?.includes("No conversation")
-    ) {
-      console.log(`[${userId.slice(-8)}] Session expired, creating fresh`)
-      sessions.delete(userId)
-      return sendPrompt(userId, prompt)
+    const previous = getUser(targetId)?.role
+    grant(targetId, role, adminId)
+    if (previous !== role) await clearSession(targetId)
+    accessLog.info("role granted", { role, target: hashUser(targetId) })
+    await replyText(replyToken, `Granted ${role} to ${targetId}.`)
+    return
+  }
+
+  if (command === "/revoke") {
+    const [targetId] = args
+    if (!targetId) {
+      await replyText(replyToken, "Usage: /revoke <userId>")
+      return
     }
-    throw err
+    if (targetId === adminId) {
+      await replyText(replyToken, "You cannot revoke yourself.")
+      return
+    }
+    const removed = revoke(targetId)
+    if (removed) {
+      await clearSession(targetId)
+      // Their schedules would otherwise keep running and billing
+      const owned = await serverRequest("GET", `/schedule?owner=${encodeURIComponent(targetId)}`)
+        .then((res) => res.schedules)
+        .catch(() => [])
+      for (const schedule of owned) {
+        await serverRequest("DELETE", `/schedule/${schedule.id}`).catch(() => {})
+      }
+    }
+    accessLog.info("access revoked", { target: hashUser(targetId), removed })
+    await replyText(
+      replyToken,
+      removed ? `Revoked access for ${targetId}.` : "No such user.",
+    )
   }
 }
 
-// --- Handle incoming LINE message ---
-async function handleTextMessage(
-  userId: string,
-  text: string,
+// --- Git commands: /diff, /commit [message], /undo ---
+async function handleGitCommand(
+  conversation: Conversation,
+  command: string,
+  args: string[],
   replyToken: string,
 ): Promise<void> {
-  console.log(`Message from ${userId}: ${text}`)
+  const session = sessions.get(conversation.id)
+  if (!session) {
+    await replyText(replyToken, "No active session. Send a message to start one.")
+    return
+  }
+  if (command !== "/diff" && getUser(conversation.userId)?.role === "ask") {
+    await replyText(replyToken, "Your role (ask) cannot change the repository.")
+    return
+  }
 
-  // --- Commands ---
-  if (text.toLowerCase() === "/new") {
-    const session = sessions.get(userId)
-    if (session) {
-      await serverRequest("DELETE", `/session/${session.sessionId}`).catch(
-        () => {},
-      )
+  const base = `/session/${session.sessionId}`
+  const res = await serverRequest(
+    command === "/diff" ? "GET" : "POST",
+    `${base}${command}`,
+    command === "/commit" ? { message: args.join(" ") || undefined } : undefined,
+  ).catch((err: Error) => err)
+  if (res instanceof Error) {
+    await replyText(replyToken, res.message)
+    return
+  }
+
+  if (command === "/diff") {
+    const branch = res.branch ?? "(detached)"
+    if (res.files.length === 0) {
+      await replyText(replyToken, `Branch ${branch}: no uncommitted changes.`)
+      return
+    }
+    const lines = [
+      `Branch ${branch}: ${res.files.length} changed`,
+      ...res.files
+        .slice(0, 30)
+        .map((f: { status: string; path: string }) => `${f.status.padEnd(2)} ${f.path}`),
+    ]
+    if (res.files.length > 30) lines.push(`… and ${res.files.length - 30} more`)
+    if (res.stat) lines.push("", res.stat.split("\n").pop())
+    const messages: messagingApi.Message[] = [{ type: "text", text: lines.join("\n") }]
+    if (res.artifacts.length > 0 && publicUrl) {
+      messages.push(buildArtifactsMessage(res.artifacts, publicUrl))
     }
-    sessions.delete(userId)
+    await lineClient.replyMessage({ replyToken, messages })
+    return
+  }
+
+  if (command === "/commit") {
+    await replyText(
+      replyToken,
+      res.committed ? `Committed ${res.commit}\n\n${res.summary}` : "Nothing to commit.",
+    )
+    return
+  }
+
+  await replyText(
+    replyToken,
+    `Reverted the last prompt's changes (${res.files.length} files):\n${res.files.slice(0, 30).join("\n")}`,
+  )
+}
+
+// --- Project commands: /project [list|use <name>|new <name>] ---
+async function handleProjectCommand(
+  conversation: Conversation,
+  args: string[],
+  replyToken: string,
+): Promise<void> {
+  const [sub = "", name] = args
+  const current = projects.get(conversation.id)
+
+  if (sub === "" || sub === "list") {
+    const res = await serverRequest("GET", "/project")
+    const names: string[] = res.projects.map((p: { name: string }) => p.name)
+    const lines = names.map((n) => `${n === current ? "▶" : "•"} ${n}`)
+    // One tap to switch (quick replies are capped at 13)
+    const items = names
+      .filter((n) => n !== current)
+      .slice(0, 13)
+      .map((n) => ({
+        type: "action" as const,
+        action: textAction(n.slice(0, 20), `/project use ${n}`),
+      }))
     await lineClient.replyMessage({
       replyToken,
       messages: [
         {
           type: "text",
-          text: "Session cleared. Next message starts a new session.",
+          text: [
+            `Current: ${current ?? "(workspace root)"}`,
+            "",
+            lines.length ? lines.join("\n") : "No projects yet.",
+            "",
+            "/project use <name> · /project new <name>",
+          ].join("\n"),
+          ...(items.length > 0 ? { quickReply: { items } } : {}),
         },
       ],
     })
     return
   }
 
-  if (text.toLowerCase() === "/abort") {
-    const session = sessions.get(userId)
-    if (session) {
-      const res = await serverRequest(
-        "POST",
-        `/session/${session.sessionId}/abort`,
-      ).catch(() => ({ aborted: false }))
-      if (res.aborted) {
-        await lineClient.replyMessage({
-          replyToken,
-          messages: [{ type: "text", text: "Prompt cancelled." }],
-        })
-        return
-      }
+  if ((sub === "use" || sub === "new") && !name) {
+    await replyText(replyToken, `Usage: /project ${sub} <name>`)
+    return
+  }
+
+  if (sub === "new") {
+    if (getUser(conversation.userId)?.role === "ask") {
+      await replyText(replyToken, "Your role (ask) cannot create projects.")
+      return
+    }
+    const created = await serverRequest("POST", "/project", { name }).catch(
+      (err: Error) => err,
+    )
+    if (created instanceof Error) {
+      await replyText(replyToken, created.message)
+      return
+    }
+  } else if (sub === "use") {
+    const res = await serverRequest("GET", "/project")
+    if (!res.projects.some((p: { name: string }) => p.name === name)) {
+      await replyText(replyToken, `No project named "${name}". Try /project list.`)
+      return
+    }
+  } else {
+    await replyText(replyToken, "Usage: /project [list | use <name> | new <name>]")
+    return
+  }
+
+  // A session's working directory is fixed, so switching starts a new one
+  projects.set(conversation.id, name)
+  await clearSession(conversation.id)
+  await replyText(
+    replyToken,
+    `${sub === "new" ? "Created and switched" : "Switched"} to project ${name}. Next message starts a new session there.`,
+  )
+}
+
+// --- /history, /resume and /export ---
+async function handleHistoryCommand(
+  conversation: Conversation,
+  command: string,
+  args: string[],
+  replyToken: string,
+): Promise<void> {
+  const key = conversation.id
+  const current = sessions.get(key)
+  // Sessions from before history was kept still show up while current
+  if (current && !histories.get(key)?.includes(current.sessionId)) {
+    recordHistory(key, current.sessionId)
+  }
+  const history = histories.get(key) ?? []
+
+  if (command === "/history") {
+    const infos = await Promise.all(
+      history.map((id) => serverRequest("GET", `/session/${id}`).catch(() => null)),
+    )
+    // Forget sessions the server no longer has, so numbers stay stable
+    const known = infos.filter((info) => info !== null)
+    histories.set(key, known.map((info) => info.id))
+    if (known.length === 0) {
+      await replyText(replyToken, "No sessions yet. Send a message to start one.")
+      return
     }
+    const lines = known.map((info, i) => {
+      const marker = info.id === current?.sessionId ? "▶" : `${i + 1}.`
+      const date = info.createdAt.slice(0, 10)
+      return `${marker} ${info.title ?? "(no prompts yet)"}\n   ${date} · $${info.totalCost.toFixed(4)} · ${info.messages.length} messages`
+    })
+    const items = known
+      .map((info, i) => ({ info, n: i + 1 }))
+      .filter(({ info }) => info.id !== current?.sessionId)
+      .slice(0, 13)
+      .map(({ n }) => ({ type: "action" as const, action: textAction(`Resume ${n}`, `/resume ${n}`) }))
     await lineClient.replyMessage({
       replyToken,
-      messages: [{ type: "text", text: "No active prompt." }],
+      messages: [
+        {
+          type: "text",
+          text: [...lines, "", "/resume <n> · /export [n]"].join("\n"),
+          ...(items.length > 0 ? { quickReply: { items } } : {}),
+        },
+      ],
     })
     return
   }
 
-  if (text.toLowerCase() === "/sessions") {
-    const session = sessions.get(userId)
-    if (session) {
-      const info = await serverRequest(
-        "GET",
-        `/session/${session.sessionId}`,
-      ).catch(() => null)
-      const msg = info
-        ? `Session: ${session.sessionId}\nCost: $${session.totalCost.toFixed(4)}\nStatus: ${info.status}`
-        : `Session: ${session.sessionId}\nCost: $${session.totalCost.toFixed(4)}`
-      await lineClient.replyMessage({
-        replyToken,
-        messages: [{ type: "text", text: msg }],
-      })
-    } else {
-      await lineClient.replyMessage({
-        replyToken,
-        messages: [
-          {
-            type: "text",
-            text: "No active session. Send a message to start one.",
-          },
-        ],
-      })
+  // /resume and /export take a number from /history (export defaults to current)
+  const n = Number(args[0])
+  const sessionId = args[0] ? history[n - 1] : current?.sessionId
+  if (!sessionId || (args[0] && !Number.isInteger(n))) {
+    await replyText(
+      replyToken,
+      command === "/resume" || args[0]
+        ? "Unknown session number. Send /history to see your sessions."
+        : "No active session.",
+    )
+    return
+  }
+
+  if (command === "/resume") {
+    if (sessionId === current?.sessionId) {
+      await replyText(replyToken, "That is already the current session.")
+      return
+    }
+    const restored = await serverRequest("POST", `/session/${sessionId}/restore`).catch(
+      () => null,
+    )
+    if (!restored) {
+      await replyText(replyToken, "That session no longer exists.")
+      return
     }
+    await clearSession(key)
+    // /history only lists the Claude server's sessions
+    sessions.set(key, {
+      sessionId,
+      totalCost: restored.totalCost,
+      readOnly: restored.readOnly,
+      backend: claudeServer.name,
+    })
+    recordHistory(key, sessionId)
+    await replyText(
+      replyToken,
+      `Resumed: ${restored.title ?? sessionId}\nDirectory: ${restored.directory}\nSend a message to continue where you left off.`,
+    )
     return
   }
 
-  if (text.toLowerCase() === "/cost") {
-    const session = sessions.get(userId)
-    const msg = session
-      ? `Total cost this session: $${session.totalCost.toFixed(4)}`
-      : "No active session."
+  // /export
+  const res = await serverRequest("POST", `/session/${sessionId}/export`).catch(
+    (err: any) => err as Error,
+  )
+  if (res instanceof Error) {
+    await replyText(replyToken, `Export failed: ${res.message}`)
+    return
+  }
+  if (publicUrl) {
     await lineClient.replyMessage({
       replyToken,
-      messages: [{ type: "text", text: msg }],
+      messages: [
+        buildDownloadMessage(
+          "📄 Session transcript",
+          `${res.messages} messages · link valid for a limited time`,
+          res.link,
+          publicUrl,
+        ),
+      ],
     })
     return
   }
+  // Without a public URL the transcript can only be sent as text
+  const download = await fetch(`${serverUrl}${res.link.url}`).catch((err: Error) => err)
+  if (download instanceof Error || !download.ok) {
+    const reason = download instanceof Error ? download.message : `server answered ${download.status}`
+    await replyText(replyToken, `Export failed: ${reason}`)
+    return
+  }
+  const transcript = await download.text()
+  const chunks = chunkText(transcript)
+  const shown =
+    chunks.length > 5
+      ? [...chunks.slice(0, 4), "… transcript truncated. Set PUBLIC_URL to download it in full."]
+      : chunks
+  await lineClient.replyMessage({
+    replyToken,
+    messages: shown.map((text) => ({ type: "text" as const, text })),
+  })
+}
 
-  // --- Enqueue prompt ---
-  enqueueForUser(userId, async () => {
-    try {
-      const { result, cost, isError } = await sendPrompt(userId, text)
-
-      let responseText = result
-      if (cost > 0) {
-        responseText += `\n\n[cost: $${cost.toFixed(4)}]`
-      }
-      if (isError) {
-        responseText = `Error: ${result}`
-      }
+// --- /schedule add|list|remove: recurring prompts for this conversation ---
+const SCHEDULE_USAGE = [
+  "/schedule add <min> <hour> <day> <month> <weekday> <prompt>",
+  "/schedule add @daily <prompt>  (also @hourly, @weekdays, @weekly, @monthly)",
+  "/schedule list · /schedule remove <n>",
+  "",
+  'e.g. /schedule add 0 9 * * 1-5 Run the tests and summarise failures',
+].join("\n")
 
-      console.log(
-        `[${userId.slice(-8)}] Response: ${responseText.length} chars, cost: $${cost.toFixed(4)}`,
-      )
-      await sendMessage(userId, responseText)
-    } catch (err: any) {
-      console.error("Prompt error:", err?.message)
-      await sendMessage(
-        userId,
-        `Error: ${err?.message?.slice(0, 200) ?? "Unknown error"}`,
-      )
-    }
-  })
+function formatRunTime(iso: string | null): string {
+  if (!iso) return "never"
+  return new Date(iso).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })
 }
 
-// --- HTTP Server for LINE Webhook ---
-Bun.serve({
-  port,
-  async fetch(req: Request) {
-    const url = new URL(req.url)
+async function handleScheduleCommand(
+  conversation: Conversation,
+  rest: string,
+  replyToken: string,
+): Promise<void> {
+  const { userId } = conversation
+  const [sub = "list", ...words] = rest.split(/\s+/).filter(Boolean)
+  // Schedules belong to their creator but are listed per conversation
+  const listOwn = async (): Promise<any[]> => {
+    const res = await serverRequest("GET", `/schedule?owner=${encodeURIComponent(userId)}`)
+    return res.schedules.filter((s: any) => s.target === conversation.id)
+  }
 
-    if (req.method === "GET" && url.pathname === "/") {
-      return new Response("Claude Code LINE Bot is running")
-    }
+  if (sub === "list") {
+    const schedules = await listOwn()
+    const lines = schedules.map(
+      (s, i) =>
+        `${i + 1}. \`${s.cron}\` ${truncate(s.request.prompt, 60)}\n   next: ${formatRunTime(s.nextRunAt)}` +
+        (s.lastSkipReason ? `\n   last skipped: ${s.lastSkipReason}` : ""),
+    )
+    await replyText(
+      replyToken,
+      lines.length > 0 ? `⏰ Schedules\n\n${lines.join("\n")}` : `No schedules yet.\n\n${SCHEDULE_USAGE}`,
+    )
+    return
+  }
 
-    if (req.method === "POST" && url.pathname === "/webhook") {
-      const body = await req.text()
-      const signature = req.headers.get("x-line-signature") || ""
+  if (sub === "remove") {
+    const schedules = await listOwn()
+    const schedule = schedules[Number(words[0]) - 1]
+    if (!schedule) {
+      await replyText(replyToken, "Unknown schedule number. Send /schedule list to see them.")
+      return
+    }
+    await serverRequest("DELETE", `/schedule/${schedule.id}`)
+    await replyText(replyToken, `Removed: ${truncate(schedule.request.prompt, 60)}`)
+    return
+  }
 
-      if (!validateSignature(body, signature)) {
-        console.error("Invalid LINE signature")
-        return new Response("Invalid signature", { status: 403 })
-      }
+  if (sub !== "add") {
+    await replyText(replyToken, SCHEDULE_USAGE)
+    return
+  }
 
-      let parsed: { events: any[] }
-      try {
-        parsed = JSON.parse(body)
-      } catch {
-        return new Response("Invalid JSON", { status: 400 })
-      }
+  // An alias is one word, a cron expression five; the prompt is the rest
+  const cronWords = words[0]?.startsWith("@") ? 1 : 5
+  const cron = words.slice(0, cronWords).join(" ")
+  const prompt = rest
+    .replace(/^\s*add\s+/, "")
+    .split(/(\s+)/)
+    .slice(cronWords * 2)
+    .join("")
+    .trim()
+  if (words.length <= cronWords || !prompt) {
+    await replyText(replyToken, SCHEDULE_USAGE)
+    return
+  }
 
-      for (const event of parsed.events) {
-        if (
-          event.type === "message" &&
-          event.message?.type === "text" &&
-          event.source?.userId
-        ) {
-          handleTextMessage(
-            event.source.userId,
-            event.message.text,
-            event.replyToken,
-          ).catch((err) => {
-            console.error("Error handling message:", err)
-          })
-        }
-      }
+  const created = await serverRequest("POST", "/schedule", {
+    ...promptOptions(userId),
+    cron,
+    prompt,
+    owner: userId,
+    target: conversation.id,
+    directory: projects.get(conversation.id),
+    read_only: getUser(userId)?.role === "ask",
+  }).catch((err: Error) => err)
+  if (created instanceof Error) {
+    await replyText(replyToken, created.message)
+    return
+  }
+  await replyText(
+    replyToken,
+    `⏰ Scheduled \`${created.cron}\`: ${truncate(prompt, 60)}\nNext run: ${formatRunTime(created.nextRunAt)}\nResults will be posted here.`,
+  )
+}
 
-      return new Response("OK")
-    }
+// --- /hook [list|subscribe <name>|unsubscribe <name>]: CI and git-host results ---
+async function handleHookCommand(
+  conversation: Conversation,
+  args: string[],
+  replyToken: string,
+): Promise<void> {
+  const [sub = "list", name] = args
+  const res = await serverRequest("GET", "/hook")
+  const hooks: { name: string; description: string | null }[] = res.hooks
 
-    return new Response("Not Found", { status: 404 })
-  },
-})
+  if (sub === "list") {
+    const lines = hooks.map(
+      (h) =>
+        `${isSubscribed(h.name, conversation.id) ? "🔔" : "•"} ${h.name}${h.description ? ` — ${h.description}` : ""}`,
+    )
+    const items = hooks
+      .filter((h) => !isSubscribed(h.name, conversation.id))
+      .slice(0, 13)
+      .map((h) => ({
+        type: "action" as const,
+        action: textAction(h.name.slice(0, 20), `/hook subscribe ${h.name}`),
+      }))
+    await lineClient.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: [
+            lines.length ? lines.join("\n") : "No hooks are configured on the server (HOOKS_FILE).",
+            "",
+            "/hook subscribe <name> · /hook unsubscribe <name>",
+          ].join("\n"),
+          ...(items.length > 0 ? { quickReply: { items } } : {}),
+        },
+      ],
+    })
+    return
+  }
 
-console.log(
-  `Claude Code LINE bot listening on http://localhost:${port}/webhook`,
-)
+  if ((sub !== "subscribe" && sub !== "unsubscribe") || !name) {
+    await replyText(replyToken, "Usage: /hook [list|subscribe <name>|unsubscribe <name>]")
+    return
+  }
+  if (sub === "unsubscribe") {
+    const removed = unsubscribeHook(name, conversation.id)
+    await replyText(replyToken, removed ? `Unsubscribed from ${name}.` : `Not subscribed to ${name}.`)
+    return
+  }
+  if (!hooks.some((h) => h.name === name)) {
+    await replyText(replyToken, `Unknown hook: ${name}. Send /hook list to see them.`)
+    return
+  }
+  subscribeHook(name, conversation.id)
+  await replyText(replyToken, `🔔 Subscribed to ${name}. Its results will be posted here.`)
+}
+
+// --- /model, /turns, /budget, /system and /settings (per user) ---
+async function handleSettingsCommand(
+  userId: string,
+  command: string,
+  value: string,
+  replyToken: string,
+): Promise<void> {
+  const current = getSettings(userId)
+  const reset = value.toLowerCase() === "default" || value.toLowerCase() === "clear"
+
+  if (command === "/model") {
+    const res = await serverRequest("GET", "/models").catch(() => null)
+    if (!res) {
+      await replyText(replyToken, "Could not reach the server.")
+      return
+    }
+    const ids: string[] = res.models.map((m: { id: string }) => m.id)
+    const allowed = ids.filter((id) => isModelAllowed(id, ids))
+
+    if (!value) {
+      const active = current.model ?? res.default
+      const lines = res.models
+        .filter((m: { id: string }) => allowed.includes(m.id))
+        .map(
+          (m: { id: string; description: string }) =>
+            `${m.id === active ? "▶" : "•"} ${m.id} — ${m.description}`,
+        )
+      const items = allowed
+        .filter((id) => id !== active)
+        .map((id) => ({ type: "action" as const, action: textAction(id, `/model ${id}`) }))
+      await lineClient.replyMessage({
+        replyToken,
+        messages: [
+          {
+            type: "text",
+            text: [
+              `Model: ${active}${current.model ? "" : " (default)"}`,
+              "",
+              ...lines,
+              "",
+              "/model <id> · /model default",
+            ].join("\n"),
+            ...(items.length > 0 ? { quickReply: { items } } : {}),
+          },
+        ],
+      })
+      return
+    }
+    if (reset) {
+      updateSettings(userId, { model: undefined })
+      await replyText(replyToken, `Model reset to the default (${res.default}).`)
+      return
+    }
+    const model = value.toLowerCase()
+    if (!isModelAllowed(model, ids)) {
+      await replyText(replyToken, `Unknown or disallowed model. Choose one of: ${allowed.join(", ")}`)
+      return
+    }
+    updateSettings(userId, { model })
+    await replyText(replyToken, `Model set to ${model}.`)
+    return
+  }
+
+  if (command === "/turns" || command === "/budget") {
+    const key = command === "/turns" ? "maxTurns" : "maxBudget"
+    const format = (v: number) => (key === "maxTurns" ? `${v} turns` : `$${v.toFixed(2)}`)
+    if (!value) {
+      const v = current[key]
+      await replyText(
+        replyToken,
+        `${v === undefined ? "Server default" : format(v)} per prompt (limit ${format(settingsLimits[key])}).\n${command} <${key === "maxTurns" ? "n" : "usd"}> · ${command} default`,
+      )
+      return
+    }
+    if (reset) {
+      updateSettings(userId, { [key]: undefined })
+      await replyText(replyToken, `${command.slice(1)} reset to the server default.`)
+      return
+    }
+    const parsed = key === "maxTurns" ? parseTurns(value) : parseBudget(value)
+    if (typeof parsed === "string") {
+      await replyText(replyToken, parsed)
+      return
+    }
+    updateSettings(userId, { [key]: parsed })
+    await replyText(replyToken, `Now using up to ${format(parsed)} per prompt.`)
+    return
+  }
+
+  if (command === "/system") {
+    if (!value) {
+      await replyText(
+        replyToken,
+        current.systemPrompt
+          ? `System prompt:\n${current.systemPrompt}\n\n/system clear to remove it.`
+          : "No system prompt set. /system <text> to set one.",
+      )
+      return
+    }
+    if (reset) {
+      updateSettings(userId, { systemPrompt: undefined })
+      await replyText(replyToken, "System prompt cleared.")
+      return
+    }
+    if (value.length > settingsLimits.maxSystemPromptChars) {
+      await replyText(
+        replyToken,
+        `System prompt is too long (max ${settingsLimits.maxSystemPromptChars} characters).`,
+      )
+      return
+    }
+    updateSettings(userId, { systemPrompt: value })
+    await replyText(replyToken, "System prompt set. It applies from your next message.")
+    return
+  }
+
+  // /settings
+  const models = await serverRequest("GET", "/models").catch(() => null)
+  await replyText(
+    replyToken,
+    [
+      "Your settings:",
+      `Model: ${current.model ?? `${models?.default ?? "server"} (default)`}`,
+      `Turns: ${current.maxTurns ?? "server default"} (limit ${settingsLimits.maxTurns})`,
+      `Budget: ${current.maxBudget !== undefined ? `$${current.maxBudget.toFixed(2)}` : "server default"} (limit $${settingsLimits.maxBudget.toFixed(2)})`,
+      `System prompt: ${current.systemPrompt ? `${current.systemPrompt.slice(0, 100)}${current.systemPrompt.length > 100 ? "…" : ""}` : "none"}`,
+      `Backend: ${current.backend ?? "default"}`,
+    ].join("\n"),
+  )
+}
+
+// --- /backend [name|default]: which coding backend new sessions use ---
+async function handleBackendCommand(
+  conversation: Conversation,
+  value: string,
+  replyToken: string,
+): Promise<void> {
+  const { userId } = conversation
+  const available = listBackends()
+  const choice = value.toLowerCase()
+
+  if (!choice) {
+    const session = sessions.get(conversation.id)
+    const next = selectBackend(getSettings(userId).backend, projects.get(conversation.id)).name
+    const items = available
+      .filter((name) => name !== next)
+      .map((name) => ({ type: "action" as const, action: textAction(name, `/backend ${name}`) }))
+    await lineClient.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: [
+            `New sessions use: ${next}${getSettings(userId).backend ? "" : " (default)"}`,
+            ...(session ? [`This session uses: ${session.backend ?? "claude"}`] : []),
+            "",
+            ...available.map((name) => `${name === next ? "▶" : "•"} ${name}`),
+            "",
+            "/backend <name> · /backend default",
+          ].join("\n"),
+          ...(items.length > 0 ? { quickReply: { items } } : {}),
+        },
+      ],
+    })
+    return
+  }
+  if (choice === "default") {
+    updateSettings(userId, { backend: undefined })
+    await replyText(replyToken, "Backend reset to the default. It applies from your next session (/new).")
+    return
+  }
+  if (!available.includes(choice)) {
+    await replyText(replyToken, `Unknown backend. Choose one of: ${available.join(", ")}`)
+    return
+  }
+  updateSettings(userId, { backend: choice })
+  await replyText(replyToken, `Backend set to ${choice}. It applies from your next session (/new).`)
+}
+
+// --- Custom commands: templates the Claude server reads from the workspace ---
+async function customCommands(conversationId: string): Promise<CustomCommand[]> {
+  const project = projects.get(conversationId)
+  const query = project ? `?directory=${encodeURIComponent(project)}` : ""
+  const res = await serverRequest("GET", `/command${query}`).catch((err: any) => {
+    promptLog.warn("custom commands unavailable", { err })
+    return null
+  })
+  return res?.commands ?? []
+}
+
+// --- /compact: summarise the conversation and carry on from the summary ---
+async function handleCompactCommand(conversation: Conversation, replyToken: string): Promise<void> {
+  const session = sessions.get(conversation.id)
+  const backend = session && backendOf(session)
+  if (!session || !backend) {
+    await replyText(replyToken, "No active session. Send a message to start one.")
+    return
+  }
+  if (!backend.compact) {
+    await replyText(replyToken, "/compact needs the claude backend; send /backend claude, then /new.")
+    return
+  }
+  await replyText(replyToken, "🗜 Compacting the conversation. The summary will follow.")
+
+  // Queued behind any prompt still running in this chat
+  const to = conversation.id
+  enqueueForConversation(to, async () => {
+    try {
+      const run = backend.compact!(session.sessionId, {
+        prompt: "/compact",
+        user: conversation.userId,
+        attachments: [],
+        options: promptOptions(conversation.userId),
+        conversationId: to,
+      })
+      await deliverOutcome(to, await settlePrompt(to, session.sessionId, Date.now(), run))
+    } catch (err: any) {
+      await deliverError(to, err)
+    }
+  })
+}
+
+// --- Handle incoming LINE message ---
+async function handleTextMessage(
+  conversation: Conversation,
+  text: string,
+  replyToken: string,
+): Promise<void> {
+  const { userId } = conversation
+  // Message text stays out of the logs
+  promptLog.debug("text message", { conversation: conversation.type, chars: text.length })
+
+  // --- Access control ---
+  const [command, ...args] = text.trim().split(/\s+/)
+  const lowerCommand = command.toLowerCase()
+
+  if (lowerCommand === "/pair") {
+    const profile = await lineClient.getProfile(userId).catch(() => null)
+    const user = args[0]
+      ? redeemPairingCode(args[0], userId, profile?.displayName)
+      : null
+    if (!user) {
+      await replyText(replyToken, "Invalid or expired pairing code.")
+      return
+    }
+    // The session may have been created under a different role
+    await clearSession(userId)
+    accessLog.info("user paired", { role: user.role })
+    await replyText(replyToken, `Paired as ${user.role}. Send a message to start coding.`)
+    return
+  }
+
+  const user = getUser(userId)
+  if (!user) {
+    await replyText(
+      replyToken,
+      "Sorry, this bot is private. Ask an admin for a pairing code, then send /pair <code>.",
+    )
+    return
+  }
+
+  if (["/users", "/grant", "/revoke", "/invite"].includes(lowerCommand)) {
+    if (user.role !== "admin") {
+      await replyText(replyToken, "Admin only.")
+      return
+    }
+    await handleAdminCommand(userId, lowerCommand, args, replyToken)
+    return
+  }
+
+  // --- Commands ---
+  if (lowerCommand === "/help") {
+    await replyText(replyToken, formatHelp(user.role, await customCommands(conversation.id)))
+    return
+  }
+
+  if (text.toLowerCase() === "/new") {
+    await clearSession(conversation.id)
+    await lineClient.replyMessage({
+      replyToken,
+      messages: [
+        {
+          type: "text",
+          text: "Session cleared. Next message starts a new session.",
+        },
+      ],
+    })
+    return
+  }
+
+  if (text.toLowerCase() === "/abort") {
+    const session = sessions.get(conversation.id)
+    const backend = session && backendOf(session)
+    if (session && backend) {
+      const res = await backend.abort(session.sessionId).catch(() => null)
+      if (res?.aborted) {
+        // The partial result and its cost arrive like any other response
+        const running = res.startedAt
+          ? ` after ${formatDuration(Date.now() - Date.parse(res.startedAt))}`
+          : ""
+        const what = res.prompt ? `: "${truncate(res.prompt, 60)}"` : ""
+        await lineClient.replyMessage({
+          replyToken,
+          messages: [
+            {
+              type: "text",
+              text: `⏹ Stopping the prompt${running}${what}\nWhat it produced so far and the cost will follow.`,
+            },
+          ],
+        })
+        return
+      }
+    }
+    await lineClient.replyMessage({
+      replyToken,
+      messages: [{ type: "text", text: "No active prompt." }],
+    })
+    return
+  }
+
+  // Git, history and export are features of the Claude server's sessions
+  if (["/diff", "/commit", "/undo", "/history", "/resume", "/export"].includes(lowerCommand)) {
+    if (!usesClaudeServer(conversation)) {
+      await replyText(replyToken, `${lowerCommand} needs the claude backend; send /backend claude, then /new.`)
+      return
+    }
+  }
+
+  if (["/diff", "/commit", "/undo"].includes(lowerCommand)) {
+    await handleGitCommand(conversation, lowerCommand, args, replyToken)
+    return
+  }
+
+  if (lowerCommand === "/project") {
+    await handleProjectCommand(conversation, args, replyToken)
+    return
+  }
+
+  if (text.toLowerCase() === "/sessions") {
+    const session = sessions.get(conversation.id)
+    if (session) {
+      const info = await backendOf(session)?.getSession(session.sessionId).catch(() => null)
+      const lines = [
+        `Session: ${session.sessionId}`,
+        `Backend: ${session.backend ?? "claude"}`,
+        `Project: ${projects.get(conversation.id) ?? "(workspace root)"}`,
+        `Cost: $${session.totalCost.toFixed(4)}`,
+      ]
+      if (info) lines.push(`Status: ${info.status}`)
+      if (info?.queuePosition) lines.push(`Waiting: #${info.queuePosition} in line`)
+      if (info?.usage) {
+        const { input, output, cacheRead, cacheWrite } = info.usage
+        lines.push(
+          `Tokens: ${formatTokens(input)} in · ${formatTokens(output)} out · ${formatTokens(cacheRead)} cache read · ${formatTokens(cacheWrite)} cache write`,
+        )
+      }
+      if (info?.context) {
+        const percent = Math.round((info.context.tokens / info.context.window) * 100)
+        lines.push(`Context: ${formatTokens(info.context.tokens)} of ${formatTokens(info.context.window)} (${percent}%) · /compact to shrink it`)
+      }
+      const msg = lines.join("\n")
+      await lineClient.replyMessage({
+        replyToken,
+        messages: [{ type: "text", text: msg }],
+      })
+    } else {
+      await lineClient.replyMessage({
+        replyToken,
+        messages: [
+          {
+            type: "text",
+            text: "No active session. Send a message to start one.",
+          },
+        ],
+      })
+    }
+    return
+  }
+
+  if (lowerCommand === "/compact") {
+    await handleCompactCommand(conversation, replyToken)
+    return
+  }
+
+  if (text.toLowerCase() === "/cost") {
+    const session = sessions.get(conversation.id)
+    const budget = await serverRequest(
+      "GET",
+      `/budget?user=${encodeURIComponent(userId)}`,
+    ).catch(() => null)
+    const lines = [
+      session
+        ? `This session: $${session.totalCost.toFixed(4)}`
+        : "No active session.",
+    ]
+    if (budget) lines.push("", ...formatBudget(budget))
+    await replyText(replyToken, lines.join("\n"))
+    return
+  }
+
+  if (["/history", "/resume", "/export"].includes(lowerCommand)) {
+    await handleHistoryCommand(conversation, lowerCommand, args, replyToken)
+    return
+  }
+
+  if (lowerCommand === "/hook") {
+    await handleHookCommand(conversation, args, replyToken)
+    return
+  }
+
+  if (lowerCommand === "/schedule") {
+    await handleScheduleCommand(conversation, text.trim().slice(command.length), replyToken)
+    return
+  }
+
+  if (lowerCommand === "/backend") {
+    await handleBackendCommand(conversation, args.join(" "), replyToken)
+    return
+  }
+
+  if (["/model", "/turns", "/budget", "/system", "/settings"].includes(lowerCommand)) {
+    const rest = text.trim().slice(command.length).trim()
+    await handleSettingsCommand(userId, lowerCommand, rest, replyToken)
+    return
+  }
+
+  // "/name args" naming a template in .claude-line/commands becomes its prompt
+  let promptText = text
+  if (lowerCommand.length > 1 && lowerCommand.startsWith("/")) {
+    const custom = (await customCommands(conversation.id)).find((c) => `/${c.name}` === lowerCommand)
+    if (custom) {
+      promptText = renderCommand(custom, text.trim().slice(command.length).trim())
+      promptLog.info("custom command", { command: custom.name, scope: custom.scope })
+    }
+  }
+
+  await submitPrompt(conversation, user, promptText, replyToken)
+}
+
+/** Queue a prompt for the conversation's session; never parsed as a command. */
+async function submitPrompt(
+  conversation: Conversation,
+  user: AccessUser,
+  promptText: string,
+  replyToken: string,
+): Promise<void> {
+  // A shared session with write access must not be driven by an "ask" user
+  const shared = sessions.get(conversation.id)
+  if (user.role === "ask" && shared && !shared.readOnly) {
+    await replyText(
+      replyToken,
+      "Your role (ask) cannot prompt a session with write access. Send /new to start a read-only one.",
+    )
+    return
+  }
+
+  // Attribute prompts in groups so Claude knows who is asking
+  const prompt = isShared(conversation)
+    ? `[${await speakerName(lineClient, conversation)}]: ${promptText}`
+    : promptText
+
+  // Images/files sent just before this message belong to this prompt
+  const attachments = takePendingAttachments(
+    `${conversation.id}:${conversation.userId}`,
+  )
+
+  // --- Enqueue prompt ---
+  const to = conversation.id
+  enqueueForConversation(to, async () => {
+    const progress =
+      progressIntervalMs > 0
+        ? createProgressReporter(
+            (chunk) => sendMessage(to, chunk),
+            progressIntervalMs,
+          )
+        : null
+    const onEvent = (event: ServerEvent) => {
+      progress?.onEvent(event)
+      if (event.type === "permission.requested") {
+        lineClient
+          .pushMessage({
+            to,
+            messages: [buildPermissionMessage(event.properties.permission)],
+          })
+          .catch((err: any) => {
+            pushFailed("permission", err)
+          })
+      }
+    }
+    try {
+      const outcome = await sendPrompt(conversation, prompt, onEvent, attachments)
+      await progress?.stop()
+      await deliverOutcome(to, outcome)
+    } catch (err: any) {
+      await progress?.stop()
+      await deliverError(to, err)
+    }
+  })
+}
+
+// --- Push a finished prompt's result to the conversation ---
+async function deliverOutcome(to: string, outcome: PromptOutcome): Promise<void> {
+  const { result, cost, isError, budgetWarning, artifacts } = outcome
+  const meta = {
+    costUsd: cost,
+    durationMs: outcome.durationMs,
+    isError,
+    budgetWarning,
+    toolCount: outcome.toolNames.length,
+    // Tool inputs are only kept by the Claude server's jobs
+    toolsPostback: outcome.jobId ? `action=tools&session=${outcome.sessionId}&job=${outcome.jobId}` : null,
+    contextPercent: outcome.context ? Math.round((outcome.context.tokens / outcome.context.window) * 100) : null,
+    compacted: outcome.compacted,
+  }
+  promptLog.info("response", {
+    sessionId: outcome.sessionId,
+    chars: result.length,
+    costUsd: cost,
+    cancelled: outcome.cancelled,
+  })
+
+  // Suggested follow-ups go on whichever message is pushed last
+  const quickReply = suggestReplies({
+    isError,
+    changedFiles: artifacts.length,
+    budgetWarning: budgetWarning !== null,
+  })
+  const responseQuickReply = artifacts.length > 0 ? undefined : quickReply
+
+  // Markdown as Flex; too long or too complex falls back to plain text
+  const flex = buildResponseMessage(result, meta)
+  const pushed =
+    flex &&
+    (await lineClient.pushMessage({ to, messages: [{ ...flex, quickReply: responseQuickReply }] }).then(
+      () => true,
+      (err: any) => {
+        pushFailed("flex", err)
+        return false
+      },
+    ))
+  if (!pushed) {
+    let responseText = isError ? `Error: ${result}` : result
+    const line = formatResponseMeta(meta)
+    if (line) {
+      responseText += `\n\n${line}`
+    }
+    if (budgetWarning) {
+      responseText += `\n\n⚠️ ${budgetWarning}`
+    }
+    await sendMessage(to, responseText, responseQuickReply)
+  }
+  if (artifacts.length > 0) {
+    await lineClient
+      .pushMessage({
+        to,
+        messages: [{ ...buildArtifactsMessage(artifacts, publicUrl), quickReply }],
+      })
+      .catch((err: any) => {
+        pushFailed("artifacts", err)
+      })
+  }
+}
+
+async function deliverError(to: string, err: any): Promise<void> {
+  errorsTotal.inc({ source: "prompt" })
+  promptLog.error("prompt failed", { err })
+  // Budget refusals carry a user-facing explanation
+  const message: string = err?.message ?? ""
+  if (err instanceof SessionGoneError) {
+    await sendMessage(to, "⏹ Not run: its session was closed (e.g. /new) before it started.")
+    return
+  }
+  await sendMessage(
+    to,
+    err instanceof BudgetExceededError ? `💸 ${message}` : `Error: ${message.slice(0, 200) || "Unknown error"}`,
+  )
+}
+
+// --- Handle image, file and audio messages ---
+async function handleMediaMessage(
+  conversation: Conversation,
+  message: any,
+  replyToken: string,
+): Promise<void> {
+  const shared = isShared(conversation)
+  const user = getUser(conversation.userId)
+  if (!user) {
+    if (!shared) {
+      await replyText(
+        replyToken,
+        "Sorry, this bot is private. Ask an admin for a pairing code, then send /pair <code>.",
+      )
+    }
+    return
+  }
+
+  // Voice notes become the prompt itself; in groups we can't tell if they're for us
+  if (message.type === "audio") {
+    if (shared) return
+    if (!transcriber) {
+      await replyText(replyToken, "Voice messages are not enabled on this bot.")
+      return
+    }
+    const audio = await downloadContent(blobClient, message.id)
+    const transcript = await transcriber.transcribe(audio, "audio/m4a")
+    if (!transcript) {
+      await replyText(replyToken, "Couldn't make out any speech in that message.")
+      return
+    }
+    promptLog.info("voice transcribed", { bytes: audio.length, chars: transcript.length })
+    await sendMessage(conversation.id, `🎤 "${transcript}"`)
+    // Straight to the prompt: speech that sounds like "/new" or "/revoke" runs no command
+    await submitPrompt(conversation, user, transcript, replyToken)
+    return
+  }
+
+  // "ask" sessions are read-only, and uploads are written into the workspace
+  if (message.type === "file" && user.role === "ask") {
+    if (!shared) await replyText(replyToken, "Your role (ask) can send images but not files.")
+    return
+  }
+
+  if (message.type === "file" && message.fileSize > maxAttachmentBytes) {
+    if (!shared) {
+      await replyText(
+        replyToken,
+        `File too large (max ${Math.round(maxAttachmentBytes / 1024 / 1024)} MB).`,
+      )
+    }
+    return
+  }
+
+  const data = await downloadContent(blobClient, message.id)
+  const attachment: Attachment =
+    message.type === "image"
+      ? {
+          type: "image",
+          media_type: imageMediaType(data),
+          data: data.toString("base64"),
+        }
+      : {
+          type: "file",
+          name: message.fileName ?? `file-${message.id}`,
+          data: data.toString("base64"),
+        }
+  const count = addPendingAttachment(
+    `${conversation.id}:${conversation.userId}`,
+    attachment,
+  )
+  promptLog.info("attachment received", { type: message.type, bytes: data.length, pending: count })
+
+  // Stay quiet in groups; the next addressed prompt picks the attachment up
+  if (!shared) {
+    const what = attachment.type === "file" ? `file ${attachment.name}` : "image"
+    await replyText(
+      replyToken,
+      `📎 Got the ${what}. Now send your question about it.`,
+    )
+  }
+}
+
+// --- Postback handlers (button taps) ---
+type PostbackHandler = (
+  conversation: Conversation,
+  params: URLSearchParams,
+  replyToken: string,
+) => Promise<void>
+
+async function handlePermissionPostback(
+  conversation: Conversation,
+  params: URLSearchParams,
+  replyToken: string,
+): Promise<void> {
+  if (!getUser(conversation.userId)) return
+  const sessionId = params.get("session") ?? ""
+  const permissionId = params.get("id") ?? ""
+  const decision = params.get("decision") as PermissionDecision
+
+  // Only members of the session's conversation may answer its approvals
+  if (!mayUseSession(conversation.id, sessionId)) {
+    await replyText(replyToken, "This request is not for your session.")
+    return
+  }
+
+  const res = await serverRequest(
+    "POST",
+    `/session/${sessionId}/permission/${encodeURIComponent(permissionId)}`,
+    { decision },
+  ).catch(() => null)
+  await replyText(
+    replyToken,
+    res?.resolved
+      ? decisionLabel(decision)
+      : "This request has already been answered or expired.",
+  )
+}
+
+// Expands the collapsed tool calls of a response
+async function handleToolsPostback(
+  conversation: Conversation,
+  params: URLSearchParams,
+  replyToken: string,
+): Promise<void> {
+  if (!getUser(conversation.userId)) return
+  const sessionId = params.get("session") ?? ""
+  if (!mayUseSession(conversation.id, sessionId)) {
+    await replyText(replyToken, "This response is not from your current session.")
+    return
+  }
+  const job = await serverRequest(
+    "GET",
+    `/job/${encodeURIComponent(params.get("job") ?? "")}`,
+  ).catch(() => null)
+  const toolUses: { name: string; input: unknown }[] = job?.result?.tool_uses ?? []
+  if (toolUses.length === 0) {
+    await replyText(replyToken, "The tool calls for this response are no longer available.")
+    return
+  }
+  const list = toolUses.map((t) => formatToolUse(t.name, t.input)).join("\n")
+  await lineClient.replyMessage({
+    replyToken,
+    messages: chunkText(list)
+      .slice(0, 5)
+      .map((text) => ({ type: "text" as const, text })),
+  })
+}
+
+// Sends a hook or scheduled run's complete result as a normal response
+async function handleJobPostback(
+  conversation: Conversation,
+  params: URLSearchParams,
+  replyToken: string,
+): Promise<void> {
+  if (!getUser(conversation.userId)) return
+  const sessionId = params.get("session") ?? ""
+  if (!mayUseSession(conversation.id, sessionId)) {
+    await replyText(replyToken, "This result is not available in this chat.")
+    return
+  }
+  const job: JobResult | null = await serverRequest(
+    "GET",
+    `/job/${encodeURIComponent(params.get("job") ?? "")}`,
+  ).catch(() => null)
+  if (!job || job.status === "failed") {
+    await replyText(replyToken, job?.error ? `Error: ${job.error}` : "This result is no longer available.")
+    return
+  }
+  await deliverOutcome(conversation.id, { ...resultOf(job), sessionId })
+}
+
+const postbackHandlers: Record<string, PostbackHandler> = {
+  permission: handlePermissionPostback,
+  tools: handleToolsPostback,
+  job: handleJobPostback,
+  // Rich menu and quick replies: same as typing the command or prompt
+  text: async (conversation, params, replyToken) => {
+    const text = params.get("text")?.trim()
+    if (text) await handleTextMessage(conversation, text, replyToken)
+  },
+}
+
+// --- Dispatch postbacks by their `action` parameter ---
+async function handlePostback(
+  conversation: Conversation,
+  data: string,
+  replyToken: string,
+): Promise<void> {
+  const params = new URLSearchParams(data)
+  const handler = postbackHandlers[params.get("action") ?? ""]
+  if (!handler) {
+    webhookLog.warn("unknown postback", { action: params.get("action") })
+    return
+  }
+  await handler(conversation, params, replyToken)
+}
+
+// --- Scheduled prompts: post results to the conversation that set them up ---
+subscribeAll((event) => {
+  const { target, sessionId } = event.properties ?? {}
+  if (!target) return
+  if (event.type === "schedule.skipped") {
+    sendMessage(target, `⏰ Skipped a scheduled run: ${event.properties.reason}`)
+    return
+  }
+  if (event.type !== "schedule.fired") return
+
+  const pending: PendingJob = {
+    jobId: event.properties.jobId,
+    sessionId,
+    conversationId: target,
+    createdAt: new Date().toISOString(),
+  }
+  trackJob(pending)
+  linkSession(target, sessionId)
+  withLogContext({ sessionId, jobId: pending.jobId }, () => {
+    promptLog.info("scheduled prompt fired", { scheduleId: event.properties.scheduleId })
+    enqueueForConversation(target, async () => {
+      await sendMessage(target, `⏰ Scheduled: ${truncate(event.properties.prompt, 80)}`)
+      // Nobody is mid-conversation, so approvals are forwarded here too
+      const unsubscribe = subscribeSession(sessionId, (e) => {
+        if (e.type !== "permission.requested") return
+        lineClient
+          .pushMessage({ to: target, messages: [buildPermissionMessage(e.properties.permission)] })
+          .catch((err: any) => pushFailed("permission", err))
+      })
+      try {
+        await deliverOutcome(target, await awaitJob(pending))
+      } catch (err: any) {
+        await deliverError(target, err)
+      } finally {
+        unsubscribe()
+      }
+    })
+  })
+})
+
+// --- Rich menu with the main commands ---
+if (process.env.RICH_MENU !== "false") {
+  ensureRichMenu(lineClient, blobClient).catch((err: any) => {
+    createLogger("richmenu").error("failed to set up rich menu", { err })
+  })
+}
+
+// --- Jobs submitted before a restart: keep waiting and deliver results ---
+for (const pending of listPendingJobs()) {
+  const { sessionId, jobId } = pending
+  withLogContext({ sessionId, jobId }, () => {
+    promptLog.info("resuming job")
+    enqueueForConversation(pending.conversationId, () =>
+      awaitJob(pending).then(
+        (outcome) => deliverOutcome(pending.conversationId, outcome),
+        (err) => deliverError(pending.conversationId, err),
+      ),
+    )
+  })
+}
+
+// --- Webhook events ---
+async function handleWebhookEvent(event: any): Promise<void> {
+  const conversation = conversationOf(event.source)
+
+  if (event.type === "join") {
+    await lineClient.replyMessage({
+      replyToken: event.replyToken,
+      messages: [
+        {
+          type: "text",
+          text: `Hi! Mention me or start a message with ${groupPrefix} to ask Claude. Everyone here shares one session.`,
+        },
+      ],
+    })
+  } else if (
+    event.type === "message" &&
+    event.message?.type === "text" &&
+    conversation
+  ) {
+    const text = isShared(conversation)
+      ? extractAddressedText(event.message, groupPrefix, botUserId)
+      : event.message.text
+    if (!text) return
+    await handleTextMessage(conversation, text, event.replyToken)
+  } else if (
+    event.type === "message" &&
+    ["image", "file", "audio"].includes(event.message?.type) &&
+    conversation
+  ) {
+    await handleMediaMessage(conversation, event.message, event.replyToken).catch(
+      async (err) => {
+        await sendMessage(
+          conversation.id,
+          `Error: ${err?.message?.slice(0, 200) ?? "Unknown error"}`,
+        )
+        throw err
+      },
+    )
+  } else if (event.type === "postback" && conversation) {
+    await handlePostback(conversation, event.postback?.data ?? "", event.replyToken)
+  }
+}
+
+/**
+ * Start handling an event unless it was seen before. Not awaited by the
+ * webhook, so LINE gets its 200 before any prompt runs.
+ */
+function dispatchWebhookEvent(event: any): void {
+  const isRedelivery = event.deliveryContext?.isRedelivery === true
+  webhookEvents.inc({ type: event.type ?? "unknown", redelivery: String(isRedelivery) })
+
+  const eventId: string | undefined = event.webhookEventId
+  const seen = eventId ? claimEvent(eventId) : null
+  if (seen) {
+    // Its result is pushed (or was) by the first delivery
+    duplicateEvents.inc({ status: seen.status })
+    webhookLog.info("duplicate event ignored", { type: event.type, isRedelivery, status: seen.status })
+    return
+  }
+
+  handleWebhookEvent(event).then(
+    () => {
+      if (eventId) finishEvent(eventId, "done")
+    },
+    (err) => {
+      if (eventId) finishEvent(eventId, "failed")
+      errorsTotal.inc({ source: "webhook" })
+      webhookLog.error("event handling failed", { type: event.type, err })
+    },
+  )
+}
+
+// --- Inbound hooks (CI, git hosts): push each run's outcome to subscribers ---
+async function deliverHookRun(hook: string, sessionId: string, jobId: string): Promise<void> {
+  const subscribers = subscribersOf(hook)
+  for (const conversationId of subscribers) linkSession(conversationId, sessionId)
+
+  // Whoever is subscribed may answer the run's approvals
+  const unsubscribe = subscribeSession(sessionId, (event) => {
+    if (event.type !== "permission.requested") return
+    for (const to of subscribers) {
+      lineClient
+        .pushMessage({ to, messages: [buildPermissionMessage(event.properties.permission)] })
+        .catch((err: any) => pushFailed("permission", err))
+    }
+  })
+  let job: JobResult
+  try {
+    job = await waitForJob(
+      { jobId, sessionId, conversationId: "", createdAt: new Date().toISOString() },
+      (id) => serverRequest("GET", `/job/${id}`),
+    )
+  } finally {
+    unsubscribe()
+  }
+
+  const result = job.result ?? {}
+  const meta = formatResponseMeta({
+    costUsd: result.cost_usd ?? 0,
+    durationMs: result.duration_ms ?? 0,
+    isError: false,
+    budgetWarning: null,
+    toolCount: 0,
+    toolsPostback: null,
+    contextPercent: null,
+    compacted: false,
+  })
+  const transcript = publicUrl
+    ? await serverRequest("POST", `/session/${sessionId}/export`).catch(() => null)
+    : null
+  const message = buildHookMessage({
+    hook,
+    status: job.status === "failed" || job.status === "cancelled" ? job.status : "completed",
+    isError: result.is_error ?? false,
+    text: job.status === "failed" ? `Error: ${job.error ?? "Unknown error"}` : (result.result ?? ""),
+    meta,
+    toolCount: result.tool_uses?.length ?? 0,
+    resultPostback: `action=job&session=${sessionId}&job=${jobId}`,
+    transcriptUrl: transcript ? publicUrl + transcript.link.url : null,
+  })
+  for (const to of subscribers) {
+    await lineClient.pushMessage({ to, messages: [message] }).catch((err: any) => pushFailed("hook", err))
+  }
+}
+
+subscribeAll((event) => {
+  if (event.type !== "hook.fired") return
+  const { hook, sessionId, jobId } = event.properties
+  if (subscribersOf(hook).length === 0) return
+  withLogContext({ sessionId, jobId }, () => {
+    promptLog.info("hook fired", { hook })
+    deliverHookRun(hook, sessionId, jobId).catch((err) => {
+      errorsTotal.inc({ source: "hook" })
+      promptLog.error("hook delivery failed", { hook, err })
+    })
+  })
+})
+
+// --- HTTP Server for LINE Webhook ---
+Bun.serve({
+  port,
+  async fetch(req: Request) {
+    const url = new URL(req.url)
+
+    if (req.method === "GET" && url.pathname === "/") {
+      return new Response("Claude Code LINE Bot is running")
+    }
+
+    if (req.method === "GET" && url.pathname === "/metrics") {
+      if (metricsToken && req.headers.get("authorization") !== `Bearer ${metricsToken}`) {
+        return new Response("Unauthorized", { status: 401 })
+      }
+      return new Response(renderMetrics(), {
+        headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+      })
+    }
+
+    // Signed file/diff links are served by the server; the tunnel only reaches us
+    if (req.method === "GET" && url.pathname.startsWith("/artifact/")) {
+      const resp = await fetch(`${serverUrl}${url.pathname}${url.search}`)
+      const headers = new Headers()
+      for (const name of ["Content-Type", "Content-Disposition"]) {
+        const value = resp.headers.get(name)
+        if (value) headers.set(name, value)
+      }
+      return new Response(resp.body, { status: resp.status, headers })
+    }
+
+    // Inbound CI/git-host hooks, checked against their secret by the server
+    if (req.method === "POST" && url.pathname.startsWith("/hook/")) {
+      const headers = new Headers()
+      for (const name of [
+        "Content-Type",
+        "X-Hub-Signature-256",
+        "X-GitHub-Event",
+        "X-Gitlab-Token",
+        "X-Hook-Secret",
+      ]) {
+        const value = req.headers.get(name)
+        if (value) headers.set(name, value)
+      }
+      const resp = await fetch(`${serverUrl}${url.pathname}`, {
+        method: "POST",
+        headers,
+        body: await req.text(),
+      })
+      return new Response(resp.body, {
+        status: resp.status,
+        headers: { "Content-Type": resp.headers.get("Content-Type") ?? "application/json" },
+      })
+    }
+
+    if (req.method === "POST" && url.pathname === "/webhook") {
+      const body = await req.text()
+      const signature = req.headers.get("x-line-signature") || ""
+
+      if (!validateSignature(body, signature)) {
+        webhookLog.warn("invalid LINE signature")
+        return new Response("Invalid signature", { status: 403 })
+      }
+
+      let parsed: { events: any[] }
+      try {
+        parsed = JSON.parse(body)
+      } catch {
+        return new Response("Invalid JSON", { status: 400 })
+      }
+
+      for (const event of parsed.events) {
+        // The webhook event id follows the prompt through to the server's logs
+        const userId: string | undefined = event.source?.userId
+        withLogContext(
+          {
+            requestId: event.webhookEventId ?? crypto.randomUUID(),
+            user: userId ? hashUser(userId) : undefined,
+          },
+          () => dispatchWebhookEvent(event),
+        )
+      }
+
+      return new Response("OK")
+    }
+
+    return new Response("Not Found", { status: 404 })
+  },
+})
+
+startupLog.info("listening", { url: `http://localhost:${port}/webhook` })
@@ -0,0 +1,87 @@
+// --- Prompt jobs the bot is waiting on, persisted across bot restarts ---
+
+import { BackendError } from "./backend"
+import { subscribeSession } from "./events"
+import { createStore } from "./store"
+
+export interface PendingJob {
+  jobId: string
+  sessionId: string
+  /** Where to push the result */
+  conversationId: string
+  createdAt: string
+}
+
+export interface JobResult {
+  id: string
+  status: "queued" | "running" | "completed" | "cancelled" | "failed"
+  result: any
+  error: string | null
+  errorStatus: number | null
+  position: number
+}
+
+const pendingJobs = createStore<PendingJob>("pending_jobs")
+const pollIntervalMs = Number(process.env.JOB_POLL_INTERVAL_MS ?? 15_000)
+
+export function trackJob(job: PendingJob): void {
+  pendingJobs.set(job.jobId, job)
+}
+
+export function untrackJob(jobId: string): void {
+  pendingJobs.delete(jobId)
+}
+
+export function listPendingJobs(): PendingJob[] {
+  return pendingJobs.values()
+}
+
+function isFinished(job: JobResult): boolean {
+  return job.status === "completed" || job.status === "cancelled" || job.status === "failed"
+}
+
+/**
+ * Resolve when the job finishes. Listens for job.completed on the event
+ * stream and polls GET /job/:id as a fallback for missed events.
+ */
+export function waitForJob(
+  pending: PendingJob,
+  fetchJob: (jobId: string) => Promise<JobResult>,
+): Promise<JobResult> {
+  return new Promise((resolve, reject) => {
+    let settled = false
+    const done = (job: JobResult) => {
+      if (settled) return
+      settled = true
+      clearInterval(timer)
+      unsubscribe()
+      resolve(job)
+    }
+    const fail = (err: Error) => {
+      if (settled) return
+      settled = true
+      clearInterval(timer)
+      unsubscribe()
+      reject(err)
+    }
+
+    const unsubscribe = subscribeSession(pending.sessionId, (event) => {
+      const job = event.properties?.job
+      if (event.type === "job.completed" && job?.id === pending.jobId) done(job)
+    })
+
+    const poll = () =>
+      fetchJob(pending.jobId)
+        .then((job) => {
+          if (isFinished(job)) done(job)
+        })
+        .catch((err: Error) => {
+          // The server lost the job (e.g. it was purged); stop waiting
+          if (err instanceof BackendError && err.status === 404) {
+            fail(new Error("The server no longer knows this job"))
+          }
+        })
+    const timer = setInterval(poll, pollIntervalMs)
+    poll()
+  })
+}
@@ -0,0 +1,7 @@
+// --- Logging for the bot; see shared/log.ts ---
+
+import { setLogService } from "../shared/log"
+
+setLogService("bot")
+
+export * from "../shared/log"
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test"
+import { buildResponseMessage, formatResponseMeta, type ResponseMeta } from "./markdown"
+
+const meta: ResponseMeta = {
+  costUsd: 0.0123,
+  durationMs: 12_300,
+  isError: false,
+  budgetWarning: null,
+  toolCount: 0,
+  toolsPostback: null,
+  contextPercent: 45,
+  compacted: false,
+}
+
+describe("buildResponseMessage", () => {
+  test("renders a short answer as one bubble with the meta line", () => {
+    const message = buildResponseMessage("# Done\n\nAll **tests** pass.", meta)
+    expect(message?.contents.type).toBe("bubble")
+    expect(JSON.stringify(message)).toContain("$0.0123 · 12.3s · 45% context")
+  })
+
+  test("spreads long answers over a carousel", () => {
+    const paragraphs = Array.from({ length: 20 }, (_, i) => `Paragraph ${i} ${"x".repeat(1_500)}`)
+    const message = buildResponseMessage(paragraphs.join("\n\n"), meta)
+    expect(message?.contents.type).toBe("carousel")
+  })
+
+  test("measures sizes in UTF-8 bytes", () => {
+    // 9,000 characters either way, but three bytes each in Thai
+    expect(buildResponseMessage("a".repeat(9_000), meta)).not.toBeNull()
+    expect(buildResponseMessage("ก".repeat(9_000), meta)).toBeNull()
+  })
+
+  test("gives up when even a carousel would be too big", () => {
+    const paragraphs = Array.from({ length: 200 }, () => "y".repeat(1_000))
+    expect(buildResponseMessage(paragraphs.join("\n\n"), meta)).toBeNull()
+  })
+
+  test("keeps the alt text within LINE's limit", () => {
+    const message = buildResponseMessage("z".repeat(1_000), meta)
+    expect(message?.altText.length).toBe(400)
+  })
+})
+
+describe("formatResponseMeta", () => {
+  test("leaves out what is unknown", () => {
+    expect(formatResponseMeta({ ...meta, costUsd: 0, durationMs: 0, contextPercent: null })).toBe("")
+    expect(formatResponseMeta({ ...meta, compacted: true })).toStartWith("🗜 compacted · ")
+  })
+})
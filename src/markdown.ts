@@ -0,0 +1,437 @@
+// --- Claude's markdown answers rendered as LINE Flex bubbles ---
+
+import type { messagingApi } from "@line/bot-sdk"
+
+interface ListItem {
+  marker: string
+  text: string
+  depth: number
+}
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "code"; lang: string; text: string }
+  | { type: "list"; items: ListItem[] }
+  | { type: "table"; rows: string[][]; raw: string }
+  | { type: "quote"; text: string }
+  | { type: "rule" }
+
+export interface ResponseMeta {
+  costUsd: number
+  durationMs: number
+  isError: boolean
+  budgetWarning: string | null
+  toolCount: number
+  /** Postback data for the button that expands the tool calls */
+  toolsPostback: string | null
+  /** Share of the context window in use after the prompt, 0–100 */
+  contextPercent: number | null
+  /** The conversation was compacted before the prompt ran */
+  compacted: boolean
+}
+
+// LINE allows 12 bubbles per carousel, ~30 KB per bubble and 50 KB per
+// message; sizes are UTF-8 bytes, so Thai or CJK text counts up to 3 per character
+const MAX_BUBBLES = 12
+const MAX_BUBBLE_JSON = 20_000
+const MAX_MESSAGE_JSON = 40_000
+const MAX_CODE_CHUNK = 2_000
+const MAX_TABLE_COLUMNS = 4
+const MAX_ALT_TEXT = 400
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/
+const TABLE_ROW = /^\s*\|.*\|\s*$/
+const TABLE_SEPARATOR = /^\s*\|?(\s*:?-+:?\s*\|)+(\s*:?-+:?\s*)?\|?\s*$/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const QUOTE = /^\s*>\s?(.*)$/
+
+const CODE_BACKGROUND = "#F4F4F4"
+const MUTED = "#888888"
+
+// --- Parsing ---
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim())
+}
+
+/** Block-level markdown: fences, headings, lists, tables, quotes, rules. */
+function parseMarkdown(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n")
+  const blocks: Block[] = []
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join("\n") })
+    }
+    paragraph = []
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      flushParagraph()
+      const body: string[] = []
+      while (++i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i])
+      }
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") })
+      continue
+    }
+
+    if (!line.trim()) {
+      flushParagraph()
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      flushParagraph()
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] })
+      continue
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph()
+      blocks.push({ type: "rule" })
+      continue
+    }
+
+    if (TABLE_ROW.test(line) && TABLE_SEPARATOR.test(lines[i + 1] ?? "")) {
+      flushParagraph()
+      const rawLines = [line]
+      const rows = [splitRow(line)]
+      i++
+      while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) {
+        rawLines.push(lines[++i])
+        rows.push(splitRow(lines[i]))
+      }
+      blocks.push({ type: "table", rows, raw: rawLines.join("\n") })
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      flushParagraph()
+      const toItem = (m: RegExpMatchArray): ListItem => ({
+        marker: /\d/.test(m[2]) ? m[2] : "•",
+        text: m[3],
+        depth: Math.floor(m[1].replace(/\t/g, "  ").length / 2),
+      })
+      const items = [toItem(item)]
+      while (i + 1 < lines.length) {
+        const next = lines[i + 1]
+        const nextItem = next.match(LIST_ITEM)
+        if (nextItem) {
+          items.push(toItem(nextItem))
+        } else if (next.trim() && /^\s{2,}/.test(next)) {
+          // Indented continuation of the previous item
+          items[items.length - 1].text += `\n${next.trim()}`
+        } else {
+          break
+        }
+        i++
+      }
+      blocks.push({ type: "list", items })
+      continue
+    }
+
+    const quote = line.match(QUOTE)
+    if (quote) {
+      flushParagraph()
+      const quoted = [quote[1]]
+      while (i + 1 < lines.length && QUOTE.test(lines[i + 1])) {
+        quoted.push(lines[++i].match(QUOTE)![1])
+      }
+      blocks.push({ type: "quote", text: quoted.join("\n") })
+      continue
+    }
+
+    paragraph.push(line)
+  }
+  flushParagraph()
+  return blocks
+}
+
+// --- Inline formatting ---
+
+const INLINE =
+  /\*\*(.+?)\*\*|__(.+?)__|`([^`]+)`|~~(.+?)~~|\[([^\]]+)\]\(([^)\s]+)\)|(?<![\w*])\*(?!\s)(.+?)\*(?![\w*])/g
+
+/** Bold, italic, strikethrough, inline code and links as Flex spans. */
+function inlineSpans(text: string): messagingApi.FlexSpan[] {
+  const spans: messagingApi.FlexSpan[] = []
+  const plain = (value: string) => {
+    if (value) spans.push({ type: "span", text: value })
+  }
+  let last = 0
+  for (const m of text.matchAll(INLINE)) {
+    plain(text.slice(last, m.index))
+    last = m.index! + m[0].length
+    const [, bold1, bold2, code, strike, linkText, linkUrl, italic] = m
+    if (bold1 ?? bold2) {
+      spans.push({ type: "span", text: (bold1 ?? bold2)!, weight: "bold" })
+    } else if (code) {
+      spans.push({ type: "span", text: code, color: "#C7254E" })
+    } else if (strike) {
+      spans.push({ type: "span", text: strike, decoration: "line-through" })
+    } else if (linkText) {
+      spans.push({ type: "span", text: linkText, color: "#1E66D0", decoration: "underline" })
+      spans.push({ type: "span", text: ` (${linkUrl})`, color: MUTED })
+    } else if (italic) {
+      spans.push({ type: "span", text: italic, style: "italic" })
+    }
+  }
+  plain(text.slice(last))
+  return spans
+}
+
+function richText(
+  text: string,
+  props: Partial<messagingApi.FlexText> = {},
+): messagingApi.FlexText {
+  const spans = inlineSpans(text)
+  const formatted = spans.some((span) => Object.keys(span).length > 2)
+  return {
+    type: "text",
+    text: text || " ",
+    wrap: true,
+    size: "sm",
+    ...(formatted ? { contents: spans } : {}),
+    ...props,
+  }
+}
+
+// --- Blocks to Flex components ---
+
+/** Flex has no monospace font, so code keeps its line breaks in a shaded box. */
+function codeBox(lang: string, code: string): messagingApi.FlexBox {
+  const contents: messagingApi.FlexComponent[] = []
+  if (lang) contents.push({ type: "text", text: lang, size: "xxs", color: MUTED })
+  contents.push({ type: "text", text: code || " ", size: "xs", wrap: true, color: "#333333" })
+  return {
+    type: "box",
+    layout: "vertical",
+    backgroundColor: CODE_BACKGROUND,
+    cornerRadius: "md",
+    paddingAll: "md",
+    spacing: "xs",
+    contents,
+  }
+}
+
+/** Long code blocks are split at line breaks so they can spread over bubbles. */
+function codeBoxes(lang: string, code: string): messagingApi.FlexBox[] {
+  const chunks: string[] = []
+  let current: string[] = []
+  let size = 0
+  for (const line of code.split("\n")) {
+    if (size + line.length > MAX_CODE_CHUNK && current.length > 0) {
+      chunks.push(current.join("\n"))
+      current = []
+      size = 0
+    }
+    current.push(line)
+    size += line.length + 1
+  }
+  chunks.push(current.join("\n"))
+  return chunks.map((chunk, i) => codeBox(i === 0 ? lang : "", chunk))
+}
+
+function tableBox(rows: string[][]): messagingApi.FlexBox {
+  const columns = Math.max(...rows.map((row) => row.length))
+  const contents: messagingApi.FlexComponent[] = []
+  rows.forEach((row, r) => {
+    contents.push({
+      type: "box",
+      layout: "horizontal",
+      spacing: "sm",
+      contents: Array.from({ length: columns }, (_, c) =>
+        richText(row[c] ?? "", {
+          size: "xxs",
+          flex: 1,
+          ...(r === 0 ? { weight: "bold" as const } : {}),
+        }),
+      ),
+    })
+    if (r === 0) contents.push({ type: "separator" })
+  })
+  return { type: "box", layout: "vertical", spacing: "xs", contents }
+}
+
+function blockComponents(block: Block): messagingApi.FlexComponent[] {
+  switch (block.type) {
+    case "heading":
+      return [
+        richText(block.text, {
+          weight: "bold",
+          size: block.level === 1 ? "lg" : block.level === 2 ? "md" : "sm",
+        }),
+      ]
+    case "paragraph":
+      return [richText(block.text)]
+    case "code":
+      return codeBoxes(block.lang, block.text)
+    case "list":
+      return [
+        {
+          type: "box",
+          layout: "vertical",
+          spacing: "xs",
+          contents: block.items.map((item) => ({
+            type: "box",
+            layout: "horizontal",
+            spacing: "sm",
+            paddingStart: `${item.depth * 12}px`,
+            contents: [
+              { type: "text", text: item.marker, size: "sm", flex: 0 },
+              richText(item.text, { flex: 1 }),
+            ],
+          })),
+        },
+      ]
+    case "table":
+      // Wide tables are unreadable on a phone; keep their raw text instead
+      return [
+        Math.max(...block.rows.map((row) => row.length)) > MAX_TABLE_COLUMNS
+          ? codeBox("", block.raw)
+          : tableBox(block.rows),
+      ]
+    case "quote":
+      return [
+        {
+          type: "box",
+          layout: "horizontal",
+          spacing: "md",
+          contents: [
+            { type: "box", layout: "vertical", width: "3px", backgroundColor: "#CCCCCC", contents: [] },
+            richText(block.text, { color: "#666666", flex: 1 }),
+          ],
+        },
+      ]
+    case "rule":
+      return [{ type: "separator" }]
+  }
+}
+
+function jsonBytes(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value), "utf8")
+}
+
+// --- Footer ---
+
+export function formatDuration(ms: number): string {
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
+}
+
+/** e.g. 950, 12.3k, 1.2M */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens)
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`
+  return `${(tokens / 1_000_000).toFixed(1)}M`
+}
+
+/** e.g. "$0.0123 · 12.3s · 45% context"; also used as the last line of plain-text replies. */
+export function formatResponseMeta(meta: ResponseMeta): string {
+  const parts: string[] = []
+  if (meta.compacted) parts.push("🗜 compacted")
+  if (meta.costUsd > 0) parts.push(`$${meta.costUsd.toFixed(4)}`)
+  if (meta.durationMs > 0) parts.push(formatDuration(meta.durationMs))
+  if (meta.contextPercent !== null) parts.push(`${meta.contextPercent}% context`)
+  return parts.join(" · ")
+}
+
+function footerBox(meta: ResponseMeta): messagingApi.FlexBox | null {
+  const contents: messagingApi.FlexComponent[] = []
+  if (meta.budgetWarning) {
+    contents.push({
+      type: "text",
+      text: `⚠️ ${meta.budgetWarning}`,
+      size: "xs",
+      color: "#B26A00",
+      wrap: true,
+    })
+  }
+  // Tool calls stay collapsed behind a button that replies with the list
+  if (meta.toolCount > 0 && meta.toolsPostback) {
+    contents.push({
+      type: "button",
+      style: "link",
+      height: "sm",
+      action: {
+        type: "postback",
+        label: `🔧 ${meta.toolCount} tool call${meta.toolCount === 1 ? "" : "s"}`,
+        data: meta.toolsPostback,
+        displayText: "Show tool calls",
+      },
+    })
+  }
+  const line = formatResponseMeta(meta)
+  if (line) contents.push({ type: "text", text: line, size: "xxs", color: MUTED, align: "end" })
+  if (contents.length === 0) return null
+  return { type: "box", layout: "vertical", spacing: "sm", contents }
+}
+
+// --- Assembly ---
+
+function bubble(contents: messagingApi.FlexComponent[]): messagingApi.FlexBubble {
+  return {
+    type: "bubble",
+    size: "giga",
+    body: { type: "box", layout: "vertical", spacing: "md", contents },
+  }
+}
+
+/**
+ * Render a markdown answer as one Flex bubble, or a carousel when it is
+ * long. Returns null when it would exceed LINE's Flex limits, so the
+ * caller can fall back to plain text chunks.
+ */
+export function buildResponseMessage(
+  markdown: string,
+  meta: ResponseMeta,
+): messagingApi.FlexMessage | null {
+  const components = parseMarkdown(markdown).flatMap(blockComponents)
+  if (meta.isError) {
+    components.unshift({ type: "text", text: "⚠️ Error", weight: "bold", color: "#D93025" })
+  }
+  if (components.length === 0) components.push(richText("Done. (no text output)"))
+
+  const pages: messagingApi.FlexComponent[][] = [[]]
+  let pageSize = 0
+  for (const component of components) {
+    const size = jsonBytes(component)
+    if (size > MAX_BUBBLE_JSON) return null
+    if (pageSize + size > MAX_BUBBLE_JSON && pages[pages.length - 1].length > 0) {
+      pages.push([])
+      pageSize = 0
+    }
+    pages[pages.length - 1].push(component)
+    pageSize += size
+  }
+  if (pages.length > MAX_BUBBLES) return null
+
+  const bubbles = pages.map(bubble)
+  const footer = footerBox(meta)
+  if (footer) bubbles[bubbles.length - 1].footer = footer
+
+  const contents: messagingApi.FlexContainer =
+    bubbles.length === 1 ? bubbles[0] : { type: "carousel", contents: bubbles }
+  if (jsonBytes(contents) > MAX_MESSAGE_JSON) return null
+
+  return {
+    type: "flex",
+    altText: (markdown.trim() || "Done.").slice(0, MAX_ALT_TEXT),
+    contents,
+  }
+}
@@ -0,0 +1,67 @@
+// --- Image, file and audio messages from LINE ---
+
+import type { messagingApi } from "@line/bot-sdk"
+
+export type Attachment =
+  | { type: "image"; media_type: string; data: string }
+  | { type: "file"; name: string; data: string }
+
+export const maxAttachmentBytes = Number(
+  process.env.MAX_ATTACHMENT_BYTES ?? 10 * 1024 * 1024,
+)
+const PENDING_TTL_MS = 10 * 60_000
+
+export async function downloadContent(
+  blobClient: messagingApi.MessagingApiBlobClient,
+  messageId: string,
+): Promise<Buffer> {
+  const stream = await blobClient.getMessageContent(messageId)
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of stream) {
+    size += chunk.length
+    if (size > maxAttachmentBytes) {
+      stream.destroy()
+      throw new Error(`Attachment exceeds ${maxAttachmentBytes} bytes`)
+    }
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/** LINE doesn't say which format an image is in, so sniff the magic bytes. */
+export function imageMediaType(data: Buffer): string {
+  if (data.subarray(0, 4).toString("hex") === "89504e47") return "image/png"
+  if (data.subarray(0, 3).toString("ascii") === "GIF") return "image/gif"
+  if (
+    data.subarray(0, 4).toString("ascii") === "RIFF" &&
+    data.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return "image/webp"
+  }
+  return "image/jpeg"
+}
+
+// --- Attachments waiting for the text prompt that explains them ---
+
+interface Pending {
+  attachments: Attachment[]
+  expiresAt: number
+}
+
+const pending = new Map<string, Pending>()
+
+export function addPendingAttachment(key: string, attachment: Attachment): number {
+  const current = pending.get(key)
+  const attachments =
+    current && current.expiresAt > Date.now() ? current.attachments : []
+  attachments.push(attachment)
+  pending.set(key, { attachments, expiresAt: Date.now() + PENDING_TTL_MS })
+  return attachments.length
+}
+
+export function takePendingAttachments(key: string): Attachment[] {
+  const current = pending.get(key)
+  pending.delete(key)
+  return current && current.expiresAt > Date.now() ? current.attachments : []
+}
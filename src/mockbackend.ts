@@ -0,0 +1,117 @@
+// --- Backend: canned replies for trying the bot without a model or API key ---
+
+import { errorForStatus, SessionBusyError, type Backend } from "./backend"
+import type { ServerEvent } from "./events"
+
+const STEP_MS = 1_000
+
+/**
+ * Echoes each prompt after a fake tool call, so progress updates, /abort
+ * and delivery can be exercised end to end. Enabled with MOCK_BACKEND=true.
+ */
+export function createMockBackend(): Backend {
+  const sessions = new Set<string>()
+  const running = new Map<string, { prompt: string; startedAt: string; stop: () => void }>()
+  const listeners = new Map<string, Set<(event: ServerEvent) => void>>()
+  let counter = 0
+
+  const emit = (sessionId: string, parts: unknown[]) => {
+    for (const listener of listeners.get(sessionId) ?? []) {
+      listener({ type: "message.updated", properties: { sessionId, message: { parts } } })
+    }
+  }
+
+  return {
+    name: "mock",
+
+    async createSession() {
+      const id = `mock-${Date.now()}-${++counter}`
+      sessions.add(id)
+      return id
+    },
+
+    async getSession(sessionId) {
+      if (!sessions.has(sessionId)) throw errorForStatus(404, "Session not found")
+      return {
+        id: sessionId,
+        status: running.has(sessionId) ? "running" : "idle",
+        title: null,
+        directory: null,
+        totalCost: 0,
+        queuePosition: 0,
+        usage: null,
+        context: null,
+      }
+    },
+
+    async prompt(sessionId, input) {
+      if (!sessions.has(sessionId)) throw errorForStatus(404, "Session not found")
+      if (running.has(sessionId)) throw new SessionBusyError("A prompt is already running", 409)
+
+      const startedAt = Date.now()
+      let cancelled = false
+      let wake = () => {}
+      running.set(sessionId, {
+        prompt: input.prompt,
+        startedAt: new Date(startedAt).toISOString(),
+        stop: () => {
+          cancelled = true
+          wake()
+        },
+      })
+      const step = () =>
+        new Promise<void>((resolve) => {
+          wake = resolve
+          setTimeout(resolve, STEP_MS)
+        })
+
+      try {
+        emit(sessionId, [{ type: "tool_use", toolName: "Read", toolInput: { file_path: "README.md" } }])
+        await step()
+        const reply = `You said: ${input.prompt}`
+        if (!cancelled) {
+          emit(sessionId, [{ type: "text", text: reply }])
+          await step()
+        }
+        return {
+          result: cancelled ? "⏹ **Cancelled.**" : reply,
+          cost: 0,
+          durationMs: Date.now() - startedAt,
+          isError: false,
+          cancelled,
+          budgetWarning: null,
+          artifacts: [],
+          toolNames: ["Read"],
+          jobId: null,
+          context: null,
+          compacted: false,
+        }
+      } finally {
+        running.delete(sessionId)
+      }
+    },
+
+    async abort(sessionId) {
+      const current = running.get(sessionId)
+      current?.stop()
+      return {
+        aborted: Boolean(current),
+        prompt: current?.prompt ?? null,
+        startedAt: current?.startedAt ?? null,
+      }
+    },
+
+    subscribe(sessionId, listener) {
+      let set = listeners.get(sessionId)
+      if (!set) {
+        set = new Set()
+        listeners.set(sessionId, set)
+      }
+      set.add(listener)
+      return () => {
+        set.delete(listener)
+        if (set.size === 0) listeners.delete(sessionId)
+      }
+    },
+  }
+}
@@ -0,0 +1,212 @@
+// --- Backend: an opencode server (`opencode serve`) ---
+
+import {
+  BackendUnavailableError,
+  errorForStatus,
+  type Backend,
+  type PromptInput,
+  type PromptResult,
+} from "./backend"
+import { connectEvents, subscribeSession, type ServerEvent } from "./events"
+import { createLogger } from "./log"
+import { createStore } from "./store"
+
+interface OpenCodeSession {
+  /** "plan" for read-only sessions, "build" otherwise */
+  agent: string
+  /** Absolute project directory on the opencode host; null = its working directory */
+  directory: string | null
+}
+
+const log = createLogger("opencode")
+
+/**
+ * Message options for opencode. `/model` ids name Claude server models, so
+ * the model comes from OPENCODE_MODEL ("provider/model") or opencode's config.
+ */
+function messageOptions(input: PromptInput, model: string | undefined): Record<string, unknown> {
+  const [providerID, modelID] = model?.split("/", 2) ?? []
+  return {
+    model: providerID && modelID ? { providerID, modelID } : undefined,
+    system: input.options.system_prompt,
+  }
+}
+
+function filePart(attachment: PromptInput["attachments"][number]): Record<string, unknown> {
+  return attachment.type === "image"
+    ? { type: "file", mime: attachment.media_type, url: `data:${attachment.media_type};base64,${attachment.data}` }
+    : {
+        type: "file",
+        mime: "application/octet-stream",
+        filename: attachment.name,
+        url: `data:application/octet-stream;base64,${attachment.data}`,
+      }
+}
+
+function resultOf(res: any, startedAt: number): PromptResult {
+  const info = res?.info ?? {}
+  const parts: any[] = res?.parts ?? []
+  const text = parts
+    .filter((part) => part.type === "text" && !part.synthetic)
+    .map((part) => part.text)
+    .join("\n\n")
+    .trim()
+  const cancelled = info.error?.name === "MessageAbortedError"
+  const error = cancelled ? null : info.error
+  return {
+    result: cancelled
+      ? ["⏹ **Cancelled.**", text].filter(Boolean).join(" Output so far:\n\n")
+      : error
+        ? (error.data?.message ?? error.name ?? "Unknown error")
+        : text || "Done. (no text output)",
+    cost: info.cost ?? 0,
+    durationMs: info.time?.completed ? info.time.completed - info.time.created : Date.now() - startedAt,
+    isError: Boolean(error),
+    cancelled,
+    budgetWarning: null,
+    artifacts: [],
+    toolNames: parts.filter((part) => part.type === "tool").map((part) => part.tool),
+    jobId: null,
+    context: null,
+    compacted: false,
+  }
+}
+
+/**
+ * Configured by OPENCODE_URL; null when unset. Sessions are created in
+ * OPENCODE_WORKSPACE/<project> when both are known.
+ */
+export function createOpenCodeBackend(): Backend | null {
+  const url = process.env.OPENCODE_URL?.replace(/\/+$/, "")
+  if (!url) return null
+  const password = process.env.OPENCODE_PASSWORD
+  const auth = password ? `Basic ${Buffer.from(`opencode:${password}`).toString("base64")}` : ""
+  const workspace = process.env.OPENCODE_WORKSPACE?.replace(/\/+$/, "")
+  const model = process.env.OPENCODE_MODEL
+  const timeoutMs = Number(process.env.PROMPT_TIMEOUT_MS ?? 300_000)
+  const promptTimeoutMs = Number(process.env.OPENCODE_PROMPT_TIMEOUT_MS ?? 30 * 60_000)
+
+  const sessions = createStore<OpenCodeSession>("opencode_sessions")
+  // Prompts in flight, for status and /abort
+  const running = new Map<string, { prompt: string; startedAt: string }>()
+  // Tool calls already reported per session; opencode repeats part updates
+  const announced = new Map<string, Set<string>>()
+
+  async function request(method: string, path: string, sessionId?: string, body?: unknown, signal?: AbortSignal) {
+    const headers: Record<string, string> = {}
+    if (auth) headers["Authorization"] = auth
+    if (body !== undefined) headers["Content-Type"] = "application/json"
+    const directory = sessionId ? sessions.get(sessionId)?.directory : null
+    const query = directory ? `?directory=${encodeURIComponent(directory)}` : ""
+
+    const resp = await fetch(`${url}${path}${query}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: signal ?? AbortSignal.timeout(timeoutMs),
+    }).catch((err: any) => {
+      throw new BackendUnavailableError(`opencode unreachable: ${err?.message ?? err}`, 0)
+    })
+
+    const text = await resp.text()
+    if (!resp.ok) {
+      let detail = text.slice(0, 300)
+      try {
+        const json = JSON.parse(text)
+        detail = json.data?.message ?? json.message ?? json.error ?? detail
+      } catch {}
+      throw errorForStatus(resp.status, detail)
+    }
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  /** opencode's part updates as the Claude server's message.updated events. */
+  function normalize(raw: any): ServerEvent | null {
+    const part = raw?.type === "message.part.updated" ? raw.properties?.part : null
+    if (!part?.sessionID || !running.has(part.sessionID)) return null
+    const message = (parts: unknown[]) => ({
+      type: "message.updated",
+      properties: { sessionId: part.sessionID, message: { parts } },
+    })
+
+    if (part.type === "tool" && part.state?.status === "running") {
+      const seen = announced.get(part.sessionID) ?? new Set<string>()
+      announced.set(part.sessionID, seen)
+      if (seen.has(part.callID)) return null
+      seen.add(part.callID)
+      return message([{ type: "tool_use", toolName: part.tool, toolInput: part.state.input }])
+    }
+    // Text parts stream in; report each once it is complete
+    if (part.type === "text" && part.time?.end && !part.synthetic) {
+      return message([{ type: "text", text: part.text }])
+    }
+    return null
+  }
+
+  connectEvents(url, auth, normalize)
+  log.info("opencode backend configured", { url, workspace: workspace ?? null })
+
+  return {
+    name: "opencode",
+
+    async createSession({ readOnly, directory }) {
+      const dir = workspace && directory ? `${workspace}/${directory}` : null
+      const query = dir ? `?directory=${encodeURIComponent(dir)}` : ""
+      const created = await request("POST", `/session${query}`, undefined, {})
+      sessions.set(created.id, { agent: readOnly ? "plan" : "build", directory: dir })
+      return created.id
+    },
+
+    async getSession(sessionId) {
+      const info = await request("GET", `/session/${sessionId}`, sessionId)
+      return {
+        id: info.id,
+        status: running.has(sessionId) ? "running" : "idle",
+        title: info.title ?? null,
+        directory: info.directory ?? null,
+        // opencode reports cost per message only; the bot keeps the total
+        totalCost: 0,
+        queuePosition: 0,
+        usage: null,
+        context: null,
+      }
+    },
+
+    async prompt(sessionId, input) {
+      const session = sessions.get(sessionId)
+      if (!session) throw errorForStatus(404, "Session not found")
+      const startedAt = Date.now()
+      running.set(sessionId, { prompt: input.prompt, startedAt: new Date(startedAt).toISOString() })
+      try {
+        const res = await request(
+          "POST",
+          `/session/${sessionId}/message`,
+          sessionId,
+          {
+            ...messageOptions(input, model),
+            agent: session.agent,
+            parts: [{ type: "text", text: input.prompt }, ...input.attachments.map(filePart)],
+          },
+          AbortSignal.timeout(promptTimeoutMs),
+        )
+        return resultOf(res, startedAt)
+      } finally {
+        running.delete(sessionId)
+        announced.delete(sessionId)
+      }
+    },
+
+    async abort(sessionId) {
+      const current = running.get(sessionId)
+      if (!current) return { aborted: false, prompt: null, startedAt: null }
+      const aborted = await request("POST", `/session/${sessionId}/abort`, sessionId)
+      return { aborted: aborted === true, prompt: current.prompt, startedAt: current.startedAt }
+    },
+
+    subscribe: subscribeSession,
+  }
+}
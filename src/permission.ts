@@ -0,0 +1,95 @@
+// --- Tool permission requests rendered as LINE Flex messages ---
+
+import type { messagingApi } from "@line/bot-sdk"
+import { formatToolUse } from "./progress"
+
+export interface PendingPermission {
+  id: string
+  sessionId: string
+  toolName: string
+  toolInput: Record<string, unknown>
+  title?: string
+}
+
+export type PermissionDecision = "allow" | "deny" | "always"
+
+const DECISION_LABELS: Record<PermissionDecision, string> = {
+  allow: "✅ Allowed",
+  deny: "⛔ Denied",
+  always: "✅ Always allowed",
+}
+
+export function decisionLabel(decision: PermissionDecision): string {
+  return DECISION_LABELS[decision]
+}
+
+function postbackData(
+  permission: PendingPermission,
+  decision: PermissionDecision,
+): string {
+  return new URLSearchParams({
+    action: "permission",
+    session: permission.sessionId,
+    id: permission.id,
+    decision,
+  }).toString()
+}
+
+/** Flex bubble with Allow / Deny / Always-allow buttons answered via postback. */
+export function buildPermissionMessage(
+  permission: PendingPermission,
+): messagingApi.Message {
+  const summary = formatToolUse(permission.toolName, permission.toolInput)
+  const button = (
+    label: string,
+    decision: PermissionDecision,
+    style: "primary" | "secondary",
+  ): messagingApi.FlexButton => ({
+    type: "button",
+    style,
+    height: "sm",
+    action: {
+      type: "postback",
+      label,
+      data: postbackData(permission, decision),
+      displayText: label,
+    },
+  })
+
+  return {
+    type: "flex",
+    altText: `Permission needed: ${summary}`,
+    contents: {
+      type: "bubble",
+      body: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          { type: "text", text: "Permission needed", weight: "bold", size: "md" },
+          {
+            type: "text",
+            text: permission.title ?? summary,
+            wrap: true,
+            size: "sm",
+            color: "#555555",
+          },
+        ],
+      },
+      footer: {
+        type: "box",
+        layout: "vertical",
+        spacing: "sm",
+        contents: [
+          button("Allow", "allow", "primary"),
+          button("Deny", "deny", "secondary"),
+          button(
+            `Always allow ${permission.toolName}`.slice(0, 40),
+            "always",
+            "secondary",
+          ),
+        ],
+      },
+    },
+  }
+}
@@ -0,0 +1,90 @@
+// --- Batched progress updates pushed to LINE while a prompt runs ---
+
+import type { ServerEvent } from "./events"
+
+const MAX_DETAIL = 80
+
+/** Collapse whitespace and clip to one short line. */
+export function truncate(text: string, max: number = MAX_DETAIL): string {
+  const oneLine = text.replace(/\s+/g, " ").trim()
+  return oneLine.length > max ? oneLine.slice(0, max - 1) + "…" : oneLine
+}
+
+/** One-line summary of a tool call, e.g. "🔧 Edit src/foo.ts". */
+export function formatToolUse(name: string, input: any): string {
+  const detail =
+    input?.file_path ??
+    input?.notebook_path ??
+    input?.command ??
+    input?.pattern ??
+    input?.url ??
+    input?.query ??
+    input?.description ??
+    ""
+  return detail ? `🔧 ${name} ${truncate(String(detail))}` : `🔧 ${name}`
+}
+
+export interface ProgressReporter {
+  onEvent(event: ServerEvent): void
+  /** Flush what is pending and stop; the final answer is sent separately. */
+  stop(): Promise<void>
+}
+
+/**
+ * Collects assistant text blocks and tool calls from server events and pushes
+ * them in batches, at most once per interval, to stay within LINE push limits.
+ * The latest text block is held back until something follows it, because the
+ * last one is the final result that the caller pushes itself.
+ */
+export function createProgressReporter(
+  send: (text: string) => Promise<void>,
+  intervalMs: number,
+): ProgressReporter {
+  const pending: string[] = []
+  let heldText: string | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let flushing: Promise<void> = Promise.resolve()
+  let stopped = false
+
+  const releaseHeld = () => {
+    if (heldText) pending.push(heldText)
+    heldText = null
+  }
+
+  const flush = () => {
+    timer = null
+    if (pending.length === 0) return
+    const text = pending.splice(0).join("\n\n")
+    flushing = flushing.then(() => send(text)).catch(() => {})
+  }
+
+  const schedule = () => {
+    if (stopped || timer || pending.length === 0) return
+    timer = setTimeout(flush, intervalMs)
+  }
+
+  return {
+    onEvent(event) {
+      if (stopped || event.type !== "message.updated") return
+      const parts: any[] = event.properties?.message?.parts ?? []
+      for (const part of parts) {
+        if (part.type === "text" && part.text?.trim()) {
+          releaseHeld()
+          heldText = part.text.trim()
+        } else if (part.type === "tool_use") {
+          releaseHeld()
+          pending.push(formatToolUse(part.toolName ?? "tool", part.toolInput))
+        }
+      }
+      schedule()
+    },
+
+    async stop() {
+      stopped = true
+      heldText = null
+      if (timer) clearTimeout(timer)
+      flush()
+      await flushing
+    },
+  }
+}
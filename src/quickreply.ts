@@ -0,0 +1,44 @@
+// --- Tappable shortcuts: quick-reply suggestions under responses ---
+
+import type { messagingApi } from "@line/bot-sdk"
+
+export interface ReplyContext {
+  isError: boolean
+  /** Files the agent created, modified or deleted */
+  changedFiles: number
+  budgetWarning: boolean
+}
+
+/**
+ * A postback that behaves as if the user had typed `text` (a command or a
+ * prompt). The text is shown in the chat so everyone sees what was sent.
+ */
+export function textAction(label: string, text: string): messagingApi.PostbackAction {
+  return {
+    type: "postback",
+    label,
+    data: new URLSearchParams({ action: "text", text }).toString(),
+    displayText: text,
+  }
+}
+
+function item(label: string, text: string): messagingApi.QuickReplyItem {
+  return { type: "action", action: textAction(label, text) }
+}
+
+/** Follow-ups that fit the answer: changes get diff/test/commit/undo. */
+export function suggestReplies(context: ReplyContext): messagingApi.QuickReply {
+  const items = [item("Continue", "Continue")]
+  if (context.isError) items.push(item("Try again", "Try again"))
+  if (context.changedFiles > 0) {
+    items.push(
+      item("Show diff", "/diff"),
+      item("Run tests", "Run the tests and fix any failures"),
+      item("Commit", "/commit"),
+      item("Undo", "/undo"),
+    )
+  }
+  if (context.budgetWarning) items.push(item("Cost", "/cost"))
+  items.push(item("New session", "/new"))
+  return { items }
+}
@@ -0,0 +1,191 @@
+// --- Rich menu with the bot's main commands, provisioned at startup ---
+
+import type { messagingApi } from "@line/bot-sdk"
+import { createHash } from "node:crypto"
+import { readFile } from "node:fs/promises"
+import { deflateSync } from "node:zlib"
+import { createLogger } from "./log"
+import { textAction } from "./quickreply"
+
+const WIDTH = 2500
+const HEIGHT = 843
+const COLUMNS = 3
+const MENU_PREFIX = "claude-line"
+
+const log = createLogger("richmenu")
+
+const BUTTONS = [
+  { label: "NEW", text: "/new" },
+  { label: "ABORT", text: "/abort" },
+  { label: "STATUS", text: "/sessions" },
+  { label: "COST", text: "/cost" },
+  { label: "MODEL", text: "/model" },
+  { label: "PROJECT", text: "/project" },
+]
+
+function menuRequest(): messagingApi.RichMenuRequest {
+  const rows = Math.ceil(BUTTONS.length / COLUMNS)
+  const cellWidth = Math.floor(WIDTH / COLUMNS)
+  const cellHeight = Math.floor(HEIGHT / rows)
+  const request: messagingApi.RichMenuRequest = {
+    size: { width: WIDTH, height: HEIGHT },
+    selected: false,
+    name: MENU_PREFIX,
+    chatBarText: "Commands",
+    areas: BUTTONS.map((button, i) => ({
+      bounds: {
+        x: (i % COLUMNS) * cellWidth,
+        y: Math.floor(i / COLUMNS) * cellHeight,
+        width: cellWidth,
+        height: cellHeight,
+      },
+      action: textAction(button.label, button.text),
+    })),
+  }
+  // Versioned name, so a changed layout replaces the old menu
+  const version = createHash("sha256").update(JSON.stringify(request)).digest("hex")
+  return { ...request, name: `${MENU_PREFIX} ${version.slice(0, 8)}` }
+}
+
+// --- Menu image: labels drawn with a 5x7 bitmap font into a grayscale PNG ---
+
+const GLYPHS: Record<string, number[]> = {
+  A: [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x1e],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+}
+const SCALE = 14
+const ADVANCE = 6 * SCALE
+const BACKGROUND = 0x26
+const GRID = 0x55
+const INK = 0xf0
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let c = 0xffffffff
+  for (const byte of data) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data])
+  const chunk = Buffer.alloc(body.length + 8)
+  chunk.writeUInt32BE(data.length, 0)
+  body.copy(chunk, 4)
+  chunk.writeUInt32BE(crc32(body), body.length + 4)
+  return chunk
+}
+
+function drawMenuImage(): Buffer {
+  const rows = Math.ceil(BUTTONS.length / COLUMNS)
+  const cellWidth = Math.floor(WIDTH / COLUMNS)
+  const cellHeight = Math.floor(HEIGHT / rows)
+  const pixels = new Uint8Array(WIDTH * HEIGHT).fill(BACKGROUND)
+
+  for (let x = cellWidth; x < WIDTH; x += cellWidth) {
+    for (let y = 0; y < HEIGHT; y++) pixels.fill(GRID, y * WIDTH + x - 2, y * WIDTH + x + 2)
+  }
+  for (let y = cellHeight; y < HEIGHT; y += cellHeight) {
+    pixels.fill(GRID, (y - 2) * WIDTH, (y + 2) * WIDTH)
+  }
+
+  BUTTONS.forEach((button, i) => {
+    const textWidth = button.label.length * ADVANCE - SCALE
+    const left = (i % COLUMNS) * cellWidth + Math.floor((cellWidth - textWidth) / 2)
+    const top = Math.floor(i / COLUMNS) * cellHeight + Math.floor((cellHeight - 7 * SCALE) / 2)
+    ;[...button.label].forEach((char, c) => {
+      const glyph = GLYPHS[char]
+      if (!glyph) return
+      glyph.forEach((bits, gy) => {
+        for (let gx = 0; gx < 5; gx++) {
+          if (!(bits & (0x10 >> gx))) continue
+          const x = left + c * ADVANCE + gx * SCALE
+          for (let y = top + gy * SCALE; y < top + (gy + 1) * SCALE; y++) {
+            pixels.fill(INK, y * WIDTH + x, y * WIDTH + x + SCALE)
+          }
+        }
+      })
+    })
+  })
+
+  // Each scanline starts with filter type 0 (none)
+  const raw = Buffer.alloc((WIDTH + 1) * HEIGHT)
+  for (let y = 0; y < HEIGHT; y++) {
+    raw.set(pixels.subarray(y * WIDTH, (y + 1) * WIDTH), y * (WIDTH + 1) + 1)
+  }
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(WIDTH, 0)
+  header.writeUInt32BE(HEIGHT, 4)
+  header.set([8, 0, 0, 0, 0], 8) // 8-bit grayscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", new Uint8Array()),
+  ])
+}
+
+async function menuImage(): Promise<Blob> {
+  // A custom design (2500x843 PNG or JPEG) can replace the generated one
+  const path = process.env.RICH_MENU_IMAGE
+  if (path) {
+    const type = /\.jpe?g$/i.test(path) ? "image/jpeg" : "image/png"
+    return new Blob([new Uint8Array(await readFile(path))], { type })
+  }
+  return new Blob([new Uint8Array(drawMenuImage())], { type: "image/png" })
+}
+
+/**
+ * Make our menu the default for all users: reuse it if this exact layout
+ * already exists, otherwise create it and delete older versions.
+ */
+export async function ensureRichMenu(
+  lineClient: messagingApi.MessagingApiClient,
+  blobClient: messagingApi.MessagingApiBlobClient,
+): Promise<void> {
+  const request = menuRequest()
+  const { richmenus } = await lineClient.getRichMenuList()
+  const existing = richmenus.find((menu) => menu.name === request.name)
+
+  let richMenuId = existing?.richMenuId
+  if (!richMenuId) {
+    richMenuId = (await lineClient.createRichMenu(request)).richMenuId
+    await blobClient.setRichMenuImage(richMenuId, await menuImage())
+    log.info("rich menu created", { name: request.name, richMenuId })
+  }
+  await lineClient.setDefaultRichMenu(richMenuId)
+
+  for (const menu of richmenus) {
+    if (menu.name.startsWith(MENU_PREFIX) && menu.richMenuId !== richMenuId) {
+      await lineClient.deleteRichMenu(menu.richMenuId).catch(() => {})
+    }
+  }
+}
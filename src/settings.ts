@@ -0,0 +1,79 @@
+// --- Per-user prompt settings (/model, /turns, /budget, /system, /backend) ---
+
+import { createStore } from "./store"
+
+export interface UserSettings {
+  model?: string
+  maxTurns?: number
+  maxBudget?: number
+  systemPrompt?: string
+  /** Backend for new sessions; unset follows the project, then DEFAULT_BACKEND */
+  backend?: string
+}
+
+/** Upper bounds set by the operator; users choose within them. */
+export const settingsLimits = {
+  maxTurns: Number(process.env.SETTINGS_MAX_TURNS ?? 50),
+  maxBudget: Number(process.env.SETTINGS_MAX_BUDGET_USD ?? 5),
+  maxSystemPromptChars: Number(process.env.SETTINGS_MAX_SYSTEM_CHARS ?? 2000),
+  /** Empty means every model the server offers */
+  models: (process.env.ALLOWED_MODELS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean),
+}
+
+const settings = createStore<UserSettings>("user_settings")
+
+export function getSettings(userId: string): UserSettings {
+  return settings.get(userId) ?? {}
+}
+
+/** Merge a change; `undefined` values reset that setting to the default. */
+export function updateSettings(userId: string, patch: UserSettings): UserSettings {
+  const next: UserSettings = { ...getSettings(userId), ...patch }
+  for (const key of Object.keys(next) as (keyof UserSettings)[]) {
+    if (next[key] === undefined) delete next[key]
+  }
+  if (Object.keys(next).length === 0) settings.delete(userId)
+  else settings.set(userId, next)
+  return next
+}
+
+export function isModelAllowed(model: string, serverModels: string[]): boolean {
+  if (!serverModels.includes(model)) return false
+  return settingsLimits.models.length === 0 || settingsLimits.models.includes(model)
+}
+
+/** Parse /turns input. Returns an error message on failure. */
+export function parseTurns(value: string): number | string {
+  const turns = Number(value)
+  if (!Number.isInteger(turns) || turns < 1) return "Turns must be a whole number of at least 1."
+  if (turns > settingsLimits.maxTurns) return `The limit is ${settingsLimits.maxTurns} turns.`
+  return turns
+}
+
+/** Parse /budget input ("0.5" or "$0.50"). Returns an error message on failure. */
+export function parseBudget(value: string): number | string {
+  const budget = Number(value.replace(/^\$/, ""))
+  if (!Number.isFinite(budget) || budget <= 0) return "Budget must be a positive amount in USD."
+  if (budget > settingsLimits.maxBudget) {
+    return `The limit is $${settingsLimits.maxBudget.toFixed(2)} per prompt.`
+  }
+  return budget
+}
+
+/**
+ * Request fields for POST /session/:id/job; unset values use server
+ * defaults. Limits are applied again in case they were lowered since.
+ */
+export function promptOptions(userId: string): Record<string, unknown> {
+  const { model, maxTurns, maxBudget, systemPrompt } = getSettings(userId)
+  const { models } = settingsLimits
+  return {
+    model: model && (models.length === 0 || models.includes(model)) ? model : undefined,
+    max_turns: maxTurns && Math.min(maxTurns, settingsLimits.maxTurns),
+    max_budget: maxBudget && Math.min(maxBudget, settingsLimits.maxBudget),
+    system_prompt: systemPrompt?.slice(0, settingsLimits.maxSystemPromptChars),
+  }
+}
@@ -0,0 +1,50 @@
+// --- Pluggable speech-to-text for LINE voice messages ---
+
+export interface Transcriber {
+  name: string
+  transcribe(audio: Buffer, mimeType: string): Promise<string>
+}
+
+/** Any OpenAI-compatible /audio/transcriptions endpoint (Whisper, Groq, local servers). */
+function openAiTranscriber(): Transcriber {
+  const url =
+    process.env.TRANSCRIBE_API_URL ??
+    "https://api.openai.com/v1/audio/transcriptions"
+  const apiKey = process.env.TRANSCRIBE_API_KEY ?? ""
+  const model = process.env.TRANSCRIBE_MODEL ?? "whisper-1"
+
+  return {
+    name: `openai (${model})`,
+    async transcribe(audio, mimeType) {
+      const form = new FormData()
+      const blob = new Blob([new Uint8Array(audio)], { type: mimeType })
+      form.append("file", blob, "voice.m4a")
+      form.append("model", model)
+
+      const headers: Record<string, string> = {}
+      if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`
+
+      const resp = await fetch(url, {
+        method: "POST",
+        headers,
+        body: form,
+        signal: AbortSignal.timeout(60_000),
+      })
+      const text = await resp.text()
+      if (!resp.ok) {
+        throw new Error(`Transcription ${resp.status}: ${text.slice(0, 200)}`)
+      }
+      return (JSON.parse(text).text ?? "").trim()
+    },
+  }
+}
+
+/** Select a transcriber via TRANSCRIBER; null means voice messages are unsupported. */
+export function createTranscriber(): Transcriber | null {
+  switch (process.env.TRANSCRIBER) {
+    case "openai":
+      return openAiTranscriber()
+    default:
+      return null
+  }
+}